@@ -34,18 +34,28 @@ function handleFlagsError(err: any) {
   }
 }
 
+/**
+ * Flags to choose the credentials of the CMS. Declare them in the commands
+ * that send requests to the CMS REST API
+ */
+export const credentialFlags = {
+  host: Flags.string({
+    description:
+      'CMS instance URL. For example: `my-instance.cms.optimizely.com`',
+  }),
+  profile: Flags.string({
+    description:
+      'Name of the saved credentials to use. See `profile list` for all profiles',
+  }),
+};
+
 /** Base class with flags and common error handling for all commands */
 export abstract class BaseCommand<T extends typeof Command> extends Command {
   // add the --json flag
   static enableJsonFlag = true;
 
   // define flags that can be inherited by any command that extends BaseCommand
-  static baseFlags = {
-    host: Flags.string({
-      description:
-        'CMS instance URL. For example: `my-instance.cms.optimizely.com`',
-    }),
-  };
+  static baseFlags = {};
 
   protected flags!: Flags<T>;
   protected args!: Args<T>;
@@ -0,0 +1,124 @@
+import { Args, Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { BaseCommand, credentialFlags } from '../../baseCommand.js';
+import { createApiClient } from '../../service/cmsRestClient.js';
+import {
+  AttributeChange,
+  ConfigDiff,
+  DiffStatus,
+  diffConfig,
+  fetchRemoteConfig,
+  ItemDiff,
+} from '../../service/configDiff.js';
+import { buildManifest } from '../../service/manifest.js';
+
+const SYMBOLS: Record<DiffStatus, string> = {
+  added: chalk.green('+'),
+  removed: chalk.red('-'),
+  changed: chalk.yellow('~'),
+};
+
+const DATA_LOSS = chalk.redBright.bold(' [data loss]');
+
+function formatValue(value: unknown) {
+  return value === undefined ? chalk.dim('(not set)') : JSON.stringify(value);
+}
+
+function formatChange({ attribute, local, remote }: AttributeChange) {
+  return `${attribute}: ${formatValue(remote)} → ${formatValue(local)}`;
+}
+
+export default class ConfigDiffCommand extends BaseCommand<
+  typeof ConfigDiffCommand
+> {
+  static override args = {
+    file: Args.string({
+      description: 'configuration file',
+      default: './optimizely.config.mjs',
+    }),
+  };
+  static override flags = {
+    ...credentialFlags,
+    failOnDataLoss: Flags.boolean({
+      description:
+        'exit with code 1 if pushing the definitions would result in data loss',
+    }),
+  };
+  static override description =
+    'Compare the content type definitions in a configuration file with the ones in the CMS';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> ./custom-config.mjs',
+    '<%= config.bin %> <%= command.id %> --json --failOnDataLoss',
+  ];
+
+  public async run(): Promise<ConfigDiff> {
+    const { args, flags } = await this.parse(ConfigDiffCommand);
+    const local = await buildManifest(args.file, this.jsonEnabled());
+    const restClient = await createApiClient(flags);
+    const diff = diffConfig(local, await fetchRemoteConfig(restClient));
+
+    if (!diff.hasChanges) {
+      this.log('The CMS is up to date with the configuration file');
+    }
+
+    if (diff.contentTypes.length > 0) {
+      this.log(chalk.bold('Content types:'));
+    }
+
+    for (const ct of diff.contentTypes) {
+      const note =
+        ct.status === 'removed' ? chalk.dim(' (only in the CMS)') : '';
+      this.log(
+        `  ${SYMBOLS[ct.status]} ${ct.key}${note}${ct.dataLoss ? DATA_LOSS : ''}`
+      );
+
+      for (const change of ct.changes) {
+        this.log(`      ${formatChange(change)}`);
+      }
+
+      for (const p of ct.properties) {
+        this.log(
+          `      ${SYMBOLS[p.status]} ${p.key}${p.dataLoss ? DATA_LOSS : ''}`
+        );
+
+        for (const change of p.changes) {
+          this.log(`          ${formatChange(change)}`);
+        }
+      }
+    }
+
+    this.logItems('Display templates:', diff.displayTemplates);
+    this.logItems('Property groups:', diff.propertyGroups);
+
+    if (diff.hasDataLoss) {
+      this.warn(
+        `Pushing these definitions requires ${chalk.bold(
+          '--force'
+        )} and may result in data loss`
+      );
+
+      if (flags.failOnDataLoss) {
+        process.exitCode = 1;
+      }
+    }
+
+    return diff;
+  }
+
+  private logItems(title: string, items: ItemDiff[]) {
+    if (items.length === 0) {
+      return;
+    }
+
+    this.log(chalk.bold(title));
+
+    for (const item of items) {
+      this.log(`  ${SYMBOLS[item.status]} ${item.key}`);
+
+      for (const change of item.changes) {
+        this.log(`      ${formatChange(change)}`);
+      }
+    }
+  }
+}
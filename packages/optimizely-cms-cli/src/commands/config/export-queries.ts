@@ -0,0 +1,72 @@
+import { Args, Flags } from '@oclif/core';
+import * as path from 'node:path';
+import { writeFile } from 'node:fs/promises';
+import {
+  createPersistedQueries,
+  initContentTypeRegistry,
+} from '@optimizely/cms-sdk';
+import { BaseCommand } from '../../baseCommand.js';
+import { readConfig } from '../../service/manifest.js';
+import { parsePersistedQueriesOptions } from '../../service/persistedQueries.js';
+import { findMetaData } from '../../service/utils.js';
+
+export default class ConfigExportQueries extends BaseCommand<
+  typeof ConfigExportQueries
+> {
+  static override args = {
+    file: Args.string({
+      description: 'configuration file',
+      default: './optimizely.config.mjs',
+    }),
+  };
+  static override flags = {
+    output: Flags.string({
+      description: 'Output JSON file',
+      default: './persisted-queries.json',
+    }),
+    damEnabled: Flags.boolean({
+      description: 'generate the queries for a CMS with DAM enabled',
+    }),
+    select: Flags.string({
+      description:
+        'also export the queries with the properties passed to `select`, in the format ContentType:path1,path2. Can be used multiple times',
+      multiple: true,
+    }),
+    facets: Flags.string({
+      description:
+        'also export the searches with these facets, in the format types,locale. Can be used multiple times',
+      multiple: true,
+    }),
+  };
+  static override description =
+    'Export the GraphQL queries generated by the SDK for the content types in a configuration file, to register them as persisted queries';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> ./custom-config.mjs --output ./queries.json',
+    '<%= config.bin %> <%= command.id %> --damEnabled',
+    '<%= config.bin %> <%= command.id %> --select Article:title,image --select Article:title --facets types',
+  ];
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(ConfigExportQueries);
+    const options = parsePersistedQueriesOptions(flags.select, flags.facets);
+    const { componentPaths, configPathDirectory } = await readConfig(args.file);
+
+    const { contentTypes } = await findMetaData(
+      componentPaths,
+      configPathDirectory
+    );
+
+    initContentTypeRegistry(contentTypes);
+    const queries = await createPersistedQueries(flags.damEnabled, options);
+
+    // Key-value object where the key is the hash and the value, the query
+    const manifest = Object.fromEntries(
+      queries.map(({ hash, query }) => [hash, query])
+    );
+
+    const outputPath = path.resolve(process.cwd(), flags.output);
+    await writeFile(outputPath, JSON.stringify(manifest, null, 2));
+    console.info(`${queries.length} queries written in '${flags.output}'`);
+  }
+}
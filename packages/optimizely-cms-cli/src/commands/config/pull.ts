@@ -1,25 +1,39 @@
-import { Flags } from '@oclif/core';
-import { resolve } from 'node:path';
+import { Errors, Flags } from '@oclif/core';
+import { dirname, join, resolve } from 'node:path';
 import ora from 'ora';
-import { BaseCommand } from '../../baseCommand.js';
-import { writeFile } from 'node:fs/promises';
+import { BaseCommand, credentialFlags } from '../../baseCommand.js';
+import { mkdir, writeFile } from 'node:fs/promises';
 import { createApiClient } from '../../service/cmsRestClient.js';
+import { mapManifestToCode } from '../../mapper/manifestToCode.js';
 
 export default class ConfigPull extends BaseCommand<typeof ConfigPull> {
   static override flags = {
-    output: Flags.string({ description: 'Output JSON file', required: true }),
+    ...credentialFlags,
+    output: Flags.string({ description: 'Output JSON file' }),
+    codegen: Flags.string({
+      description:
+        'Output directory for the TypeScript definitions of the content types and display templates',
+    }),
+    force: Flags.boolean({
+      description: 'Overwrite the existing files in the --codegen directory',
+    }),
   };
   static override description =
-    'Download the config manifesto from CMS in JSON format';
+    'Download the config manifesto from CMS in JSON format or as TypeScript definitions';
   static override examples = [
     '<%= config.bin %> <%= command.id %> --output ./out.json',
+    '<%= config.bin %> <%= command.id %> --codegen ./src/content-types',
+    '<%= config.bin %> <%= command.id %> --codegen ./src/content-types --force',
   ];
 
   public async run(): Promise<void> {
     const { args, flags } = await this.parse(ConfigPull);
 
-    const outputPath = resolve(process.cwd(), flags.output);
-    const restClient = await createApiClient(flags.host);
+    if (!flags.output && !flags.codegen) {
+      throw new Errors.CLIError('Missing required flag --output or --codegen');
+    }
+
+    const restClient = await createApiClient(flags);
 
     const spinner = ora('Downloading configuration file').start();
     const response = await restClient
@@ -33,6 +47,49 @@ export default class ConfigPull extends BaseCommand<typeof ConfigPull> {
 
     spinner.succeed();
 
-    await writeFile(outputPath, JSON.stringify(response, null, 2));
+    if (flags.output) {
+      const outputPath = resolve(process.cwd(), flags.output);
+      await writeFile(outputPath, JSON.stringify(response, null, 2));
+    }
+
+    if (flags.codegen) {
+      const outputDir = resolve(process.cwd(), flags.codegen);
+      const written: string[] = [];
+      const skipped: string[] = [];
+
+      for (const file of mapManifestToCode(response)) {
+        const filePath = join(outputDir, file.path);
+        const displayPath = join(flags.codegen, file.path);
+        await mkdir(dirname(filePath), { recursive: true });
+
+        try {
+          // "wx" fails if the file exists
+          await writeFile(filePath, file.content, {
+            flag: flags.force ? 'w' : 'wx',
+          });
+          written.push(displayPath);
+          this.log(`Generated ${displayPath}`);
+        } catch (error) {
+          const exists =
+            error instanceof Error &&
+            'code' in error &&
+            error.code === 'EEXIST';
+          if (!exists) {
+            throw error;
+          }
+          skipped.push(displayPath);
+        }
+      }
+
+      this.log(`${written.length} files written in ${flags.codegen}`);
+
+      if (skipped.length > 0) {
+        this.warn(
+          `Skipped ${skipped.length} existing files. Use --force to overwrite them:\n${skipped
+            .map((path) => `  ${path}`)
+            .join('\n')}`
+        );
+      }
+    }
   }
 }
@@ -1,18 +1,21 @@
 import { Args, Flags } from '@oclif/core';
-import * as path from 'node:path';
 import ora from 'ora';
-import { BaseCommand } from '../../baseCommand.js';
+import {
+  BaseCommand,
+  Flags as CommandFlags,
+  credentialFlags,
+} from '../../baseCommand.js';
 import { writeFile } from 'node:fs/promises';
 import { createApiClient } from '../../service/cmsRestClient.js';
+import { buildManifest, Manifest } from '../../service/manifest.js';
 import {
-  findMetaData,
-  readFromPath,
-  normalizePropertyGroups,
-} from '../../service/utils.js';
-import { mapContentToManifest } from '../../mapper/contentToPackage.js';
-import { pathToFileURL } from 'node:url';
+  getChangedDefinitions,
+  watchManifest,
+} from '../../service/watchManifest.js';
 import chalk from 'chalk';
 
+type RestClient = Awaited<ReturnType<typeof createApiClient>>;
+
 export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
   static override args = {
     file: Args.string({
@@ -21,7 +24,7 @@ export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
     }),
   };
   static override flags = {
-    host: Flags.string({ description: 'CMS instance URL' }),
+    ...credentialFlags,
     output: Flags.string({ description: 'if passed, write the manifest JSON' }),
     dryRun: Flags.boolean({
       description: 'do not send anything to the server',
@@ -30,6 +33,10 @@ export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
       description:
         'Force updates the content type even though the changes might result in data loss.',
     }),
+    watch: Flags.boolean({
+      description:
+        'Watch the component files and push again every time a content type or display template changes',
+    }),
   };
   static override description =
     'Push content type definitions to the CMS from a configuration file';
@@ -37,37 +44,19 @@ export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> ./custom-config.mjs',
     '<%= config.bin %> <%= command.id %> --force',
+    '<%= config.bin %> <%= command.id %> --watch',
   ];
 
   public async run(): Promise<void> {
     const { args, flags } = await this.parse(ConfigPush);
-    const configFilePath = path.resolve(process.cwd(), args.file);
-    const configPath = pathToFileURL(configFilePath).href;
-
-    const componentPaths = await readFromPath(configPath, 'components');
-    const propertyGroups = await readFromPath(configPath, 'propertyGroups');
-
-    //the pattern is relative to the config file
-    const configPathDirectory = pathToFileURL(path.dirname(configFilePath)).href;
-
-    // extracts metadata(contentTypes, displayTemplates) from the component paths
-    const { contentTypes, displayTemplates } = await findMetaData(
-      componentPaths,
-      configPathDirectory
-    );
-
-    // Validate and normalize property groups
-    const normalizedPropertyGroups = propertyGroups
-      ? normalizePropertyGroups(propertyGroups)
-      : [];
-
-    const metaData = {
-      contentTypes: mapContentToManifest(contentTypes),
-      displayTemplates,
-      propertyGroups: normalizedPropertyGroups,
-    };
 
-    const restClient = await createApiClient(flags.host);
+    if (flags.watch) {
+      return this.watch(args.file, flags);
+    }
+
+    const metaData = await buildManifest(args.file);
+
+    const restClient = await createApiClient(flags);
 
     if (flags.output) {
       await writeFile(flags.output, JSON.stringify(metaData, null, 2));
@@ -78,14 +67,75 @@ export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
       return;
     }
 
-    if (flags.force) {
+    this.warnForce(flags.force);
+    await this.upload(restClient, metaData, flags.force);
+  }
+
+  /**
+   * Pushes the manifest every time a content type or display template
+   * changes, until the process is interrupted
+   */
+  private async watch(
+    file: string,
+    flags: CommandFlags<typeof ConfigPush>
+  ): Promise<void> {
+    const restClient = flags.dryRun ? undefined : await createApiClient(flags);
+    let lastPushed: Manifest | undefined;
+
+    this.warnForce(flags.force);
+
+    const push = async (manifest: Manifest) => {
+      const changed = getChangedDefinitions(lastPushed, manifest);
+
+      if (changed.length === 0) {
+        return;
+      }
+
+      console.info(`Changed definitions: ${changed.join(', ')}`);
+
+      if (flags.output) {
+        await writeFile(flags.output, JSON.stringify(manifest, null, 2));
+        console.info(`Configuration file written in '${flags.output}'`);
+      }
+
+      if (
+        !restClient ||
+        (await this.upload(restClient, manifest, flags.force))
+      ) {
+        lastPushed = manifest;
+      }
+    };
+
+    // Writing the output must not trigger another push
+    const watcher = await watchManifest(file, push, {
+      ignore: flags.output ? [flags.output] : [],
+    });
+
+    console.info(chalk.gray('Watching for changes. Press Ctrl+C to stop'));
+
+    await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+    await watcher.close();
+  }
+
+  private warnForce(force: boolean) {
+    if (force) {
       console.warn(
         `${chalk.yellowBright.bold(
           '--force'
         )} is used!. This forces content type updates, which may result in data loss`
       );
     }
+  }
 
+  /**
+   * Uploads the manifest to the CMS and prints the result
+   * @returns `true` if the manifest was uploaded without errors
+   */
+  private async upload(
+    restClient: RestClient,
+    metaData: Manifest,
+    force: boolean
+  ): Promise<boolean> {
     const spinner = ora('Uploading configuration file').start();
 
     const response = await restClient.POST('/experimental/packages', {
@@ -96,7 +146,7 @@ export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
       body: metaData as any,
       params: {
         query: {
-          ignoreDataLossWarnings: flags.force,
+          ignoreDataLossWarnings: force,
         },
       },
     });
@@ -119,14 +169,14 @@ export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
         console.error(response.error.detail);
       }
 
-      return;
+      return false;
     }
 
     spinner.succeed('Configuration file uploaded');
 
     if (!response.data) {
       console.error('The server did not respond with any content');
-      return;
+      return false;
     }
 
     const data = response.data;
@@ -150,6 +200,10 @@ export default class ConfigPush extends BaseCommand<typeof ConfigPush> {
       for (const r of data.errors) {
         console.log(`- ${r.message}`);
       }
+
+      return false;
     }
+
+    return true;
   }
 }
@@ -1,5 +1,5 @@
 import { Args } from '@oclif/core';
-import { BaseCommand } from '../../baseCommand.js';
+import { BaseCommand, credentialFlags } from '../../baseCommand.js';
 import { createApiClient } from '../../service/cmsRestClient.js';
 
 export default class ContentDelete extends BaseCommand<typeof ContentDelete> {
@@ -14,12 +14,12 @@ export default class ContentDelete extends BaseCommand<typeof ContentDelete> {
     '<%= config.bin %> <%= command.id %> Article',
     '<%= config.bin %> <%= command.id %> ProductPage --host https://example.com',
   ];
-  static override flags = {};
+  static override flags = { ...credentialFlags };
 
   public async run(): Promise<void> {
     const { args, flags } = await this.parse(ContentDelete);
 
-    const client = await createApiClient(flags.host);
+    const client = await createApiClient(flags);
     const r = await client.DELETE('/content/{key}', {
       params: {
         path: {
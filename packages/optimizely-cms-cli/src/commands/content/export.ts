@@ -0,0 +1,72 @@
+import { Flags } from '@oclif/core';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import chalk from 'chalk';
+import { BaseCommand, credentialFlags } from '../../baseCommand.js';
+import { createApiClient } from '../../service/cmsRestClient.js';
+import { ContentExport, exportContent } from '../../service/contentTransfer.js';
+
+export default class ContentExportCommand extends BaseCommand<
+  typeof ContentExportCommand
+> {
+  static override flags = {
+    ...credentialFlags,
+    root: Flags.string({
+      description: 'Key of the content to export with all its items',
+      required: true,
+    }),
+    out: Flags.string({
+      description: 'Output directory',
+      required: true,
+    }),
+  };
+  static override description =
+    'Export a content item and all its items to JSON files that can be imported in another instance';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> --root <key> --out ./content-export',
+    '<%= config.bin %> <%= command.id %> --root <key> --out ./content-export --profile production',
+  ];
+
+  public async run(): Promise<ContentExport> {
+    const { flags } = await this.parse(ContentExportCommand);
+    const client = await createApiClient(flags);
+    const outputDir = resolve(process.cwd(), flags.out);
+
+    const { index, items } = await exportContent(client, flags.root, (item) =>
+      this.log(
+        `Exported ${item.key} ${chalk.dim(
+          `(${item.contentType}, ${item.versions.length} locales)`
+        )}`
+      )
+    );
+
+    await mkdir(join(outputDir, 'content'), { recursive: true });
+    await writeFile(
+      join(outputDir, 'export.json'),
+      JSON.stringify(index, null, 2)
+    );
+
+    for (const item of items) {
+      await writeFile(
+        join(outputDir, 'content', `${item.key}.json`),
+        JSON.stringify(item, null, 2)
+      );
+    }
+
+    this.log(`${items.length} items written in '${flags.out}'`);
+
+    if (index.references.length > 0) {
+      this.log(
+        chalk.yellow(
+          'The exported items reference content that is not part of the export. It must exist in the target instance with the same key:'
+        )
+      );
+
+      for (const reference of index.references) {
+        this.log(`- ${reference.key} (${reference.contentType ?? 'unknown'})`);
+      }
+    }
+
+    return index;
+  }
+}
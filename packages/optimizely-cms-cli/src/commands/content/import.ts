@@ -0,0 +1,77 @@
+import { Args, Flags } from '@oclif/core';
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import chalk from 'chalk';
+import { BaseCommand, credentialFlags } from '../../baseCommand.js';
+import { createApiClient } from '../../service/cmsRestClient.js';
+import {
+  ContentExport,
+  ContentImport,
+  ExportedContent,
+  importContent,
+} from '../../service/contentTransfer.js';
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, 'utf-8'));
+}
+
+export default class ContentImportCommand extends BaseCommand<
+  typeof ContentImportCommand
+> {
+  static override args = {
+    dir: Args.string({
+      description: 'Directory created with `content export`',
+      required: true,
+    }),
+  };
+  static override flags = {
+    ...credentialFlags,
+    parent: Flags.string({
+      description: 'Key of the content where the exported content is created',
+      required: true,
+    }),
+  };
+  static override description =
+    'Import content exported with `content export`. The items get new keys and the references between them are updated';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ./content-export --parent <key>',
+    '<%= config.bin %> <%= command.id %> ./content-export --parent <key> --profile qa',
+  ];
+
+  public async run(): Promise<ContentImport> {
+    const { args, flags } = await this.parse(ContentImportCommand);
+    const inputDir = resolve(process.cwd(), args.dir);
+
+    const index = await readJson<ContentExport>(join(inputDir, 'export.json'));
+    const items: ExportedContent[] = [];
+
+    for (const key of index.items) {
+      items.push(await readJson(join(inputDir, 'content', `${key}.json`)));
+    }
+
+    const client = await createApiClient(flags);
+    const result = await importContent(
+      client,
+      items,
+      index.root,
+      flags.parent,
+      (item, key) => this.log(`Imported ${item.key} → ${key}`)
+    );
+
+    this.log(`${Object.keys(result.keys).length} items imported`);
+
+    if (result.unresolvedReferences.length > 0) {
+      this.log(
+        chalk.yellow(
+          'References to content that is not part of the export were kept unchanged:'
+        )
+      );
+
+      for (const key of result.unresolvedReferences) {
+        this.log(`- ${key}`);
+      }
+    }
+
+    return result;
+  }
+}
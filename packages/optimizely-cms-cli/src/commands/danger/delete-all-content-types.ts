@@ -1,5 +1,5 @@
 import { confirm } from '@inquirer/prompts';
-import { BaseCommand } from '../../baseCommand.js';
+import { BaseCommand, credentialFlags } from '../../baseCommand.js';
 import ora from 'ora';
 import { createApiClient } from '../../service/cmsRestClient.js';
 
@@ -13,11 +13,11 @@ export default class DangerDeleteAllContentTypes extends BaseCommand<
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --host https://example.com',
   ];
-  static override flags = {};
+  static override flags = { ...credentialFlags };
 
   public async run(): Promise<void> {
     const { args, flags } = await this.parse(DangerDeleteAllContentTypes);
-    const client = await createApiClient(flags.host);
+    const client = await createApiClient(flags);
 
     const answer = await confirm({
       message: 'This will delete all your content types. Are you sure?',
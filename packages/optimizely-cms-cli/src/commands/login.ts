@@ -1,43 +1,86 @@
-import { Command, Flags } from '@oclif/core';
+import { Flags } from '@oclif/core';
+import { input, password } from '@inquirer/prompts';
 import ora from 'ora';
-import { readEnvCredentials } from '../service/config.js';
+import { BaseCommand, credentialFlags } from '../baseCommand.js';
+import {
+  CmsCredentials,
+  readCredentials,
+  readEnvCredentials,
+  saveProfile,
+} from '../service/config.js';
 import { getToken } from '../service/cmsRestClient.js';
 
-export default class Login extends Command {
+export default class Login extends BaseCommand<typeof Login> {
   static override description =
-    'Verify your Optimizely CMS credentials configured in environment variables';
+    'Verify your Optimizely CMS credentials. With --profile, save them with a name to use them later';
   static override examples = [
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --verbose',
+    '<%= config.bin %> <%= command.id %> --profile staging --host staging.cms.optimizely.com',
+    '<%= config.bin %> <%= command.id %> --profile ci --fromEnv',
   ];
   static override flags = {
+    ...credentialFlags,
     verbose: Flags.boolean({
       description: 'Show detailed output during authentication',
     }),
+    fromEnv: Flags.boolean({
+      description:
+        'With --profile, save the credentials of the environment variables instead of asking for them',
+      dependsOn: ['profile'],
+    }),
+    apiUrl: Flags.string({
+      description:
+        'With --profile, URL of the CMS REST API of the instance. Default: `https://api.cms.optimizely.com`',
+      dependsOn: ['profile'],
+    }),
   };
 
   public async run(): Promise<void> {
-    const credentials = readEnvCredentials();
-
-    if (credentials) {
-      const spinner = ora('Checking your credentials...').start();
-      try {
-        const token = await getToken(
-          credentials.clientId,
-          credentials.clientSecret
-        );
-
-        if (token) {
-          spinner.succeed('Your credentials are correct');
-        } else {
-          spinner.fail('The API did not return a token');
+    const { flags } = await this.parse(Login);
+
+    const credentials: CmsCredentials = flags.profile
+      ? {
+          ...(flags.fromEnv
+            ? readEnvCredentials()
+            : await this.askCredentials()),
+          ...(flags.apiUrl && { apiUrl: flags.apiUrl }),
         }
-      } catch (err) {
-        spinner.clear();
-        throw err;
+      : readCredentials(flags);
+
+    const spinner = ora('Checking your credentials...').start();
+    try {
+      const token = await getToken(
+        credentials.clientId,
+        credentials.clientSecret,
+        credentials.apiUrl
+      );
+
+      if (!token) {
+        spinner.fail('The API did not return a token');
+        return;
       }
 
-      return;
+      spinner.succeed('Your credentials are correct');
+    } catch (err) {
+      spinner.clear();
+      throw err;
     }
+
+    if (flags.profile) {
+      saveProfile(flags.profile, {
+        ...credentials,
+        ...(flags.host && { host: flags.host }),
+      });
+      this.log(`Credentials saved in the profile "${flags.profile}"`);
+    }
+  }
+
+  /** Asks for the credentials */
+  private async askCredentials(): Promise<CmsCredentials> {
+    return {
+      clientId: await input({ message: 'Client ID' }),
+      clientSecret: await password({ message: 'Client secret', mask: true }),
+    };
   }
 }
@@ -0,0 +1,45 @@
+import { BaseCommand } from '../../baseCommand.js';
+import { getProfiles } from '../../service/config.js';
+
+type ProfileSummary = {
+  name: string;
+  host?: string;
+  current: boolean;
+};
+
+export default class ProfileList extends BaseCommand<typeof ProfileList> {
+  static override description =
+    'List the saved profiles. The current profile is marked with *';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --json',
+  ];
+  static override flags = {};
+
+  public async run(): Promise<ProfileSummary[]> {
+    await this.parse(ProfileList);
+
+    const { profiles, currentProfile } = getProfiles();
+    const result = Object.entries(profiles).map(([name, profile]) => ({
+      name,
+      host: profile.host,
+      current: name === currentProfile,
+    }));
+
+    if (result.length === 0) {
+      this.log(
+        "You don't have any profiles. Create one with `login --profile <name>`"
+      );
+    }
+
+    for (const profile of result) {
+      this.log(
+        `${profile.current ? '*' : ' '} ${profile.name}${
+          profile.host ? `  ${profile.host}` : ''
+        }`
+      );
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,22 @@
+import { Args } from '@oclif/core';
+import { BaseCommand } from '../../baseCommand.js';
+import { removeProfile } from '../../service/config.js';
+
+export default class ProfileRemove extends BaseCommand<typeof ProfileRemove> {
+  static override args = {
+    name: Args.string({
+      description: 'Name of the profile',
+      required: true,
+    }),
+  };
+  static override description = 'Remove a profile and its saved credentials';
+  static override examples = ['<%= config.bin %> <%= command.id %> staging'];
+  static override flags = {};
+
+  public async run(): Promise<void> {
+    const { args } = await this.parse(ProfileRemove);
+
+    removeProfile(args.name);
+    this.log(`Profile removed: ${args.name}`);
+  }
+}
@@ -0,0 +1,23 @@
+import { Args } from '@oclif/core';
+import { BaseCommand } from '../../baseCommand.js';
+import { useProfile } from '../../service/config.js';
+
+export default class ProfileUse extends BaseCommand<typeof ProfileUse> {
+  static override args = {
+    name: Args.string({
+      description: 'Name of the profile',
+      required: true,
+    }),
+  };
+  static override description =
+    'Use the credentials of a profile in all commands unless --profile or --host are passed or the credentials are in environment variables';
+  static override examples = ['<%= config.bin %> <%= command.id %> staging'];
+  static override flags = {};
+
+  public async run(): Promise<void> {
+    const { args } = await this.parse(ProfileUse);
+
+    useProfile(args.name);
+    this.log(`Using the profile "${args.name}"`);
+  }
+}
@@ -0,0 +1,54 @@
+import { Flags } from '@oclif/core';
+import { BaseCommand } from '../../baseCommand.js';
+import {
+  createWebhookInput,
+  createWebhooksClient,
+  Webhook,
+  WebhookEvent,
+  WEBHOOK_EVENTS,
+} from '../../service/graphWebhooks.js';
+
+export default class WebhookCreate extends BaseCommand<typeof WebhookCreate> {
+  static override description =
+    'Create a webhook in Optimizely Graph. For example, to invalidate the cache of your application when content is published';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> --url https://example.com/webhooks/my-secret',
+    '<%= config.bin %> <%= command.id %> --url https://example.com/webhooks --event doc --event bulk',
+    '<%= config.bin %> <%= command.id %> --url https://example.com/webhooks --status Draft',
+  ];
+  static override flags = {
+    url: Flags.string({
+      description: 'URL that receives the webhook requests',
+      required: true,
+    }),
+    event: Flags.string({
+      description:
+        'Only trigger the webhook for this kind of event. Can be used multiple times. All events by default',
+      options: [...WEBHOOK_EVENTS],
+      multiple: true,
+    }),
+    status: Flags.string({
+      description: 'Only trigger the webhook for documents with this status',
+      default: 'Published',
+    }),
+    disabled: Flags.boolean({
+      description: 'Create the webhook disabled',
+    }),
+  };
+
+  public async run(): Promise<Webhook> {
+    const { flags } = await this.parse(WebhookCreate);
+
+    const webhook = await createWebhooksClient().create(
+      createWebhookInput({
+        url: flags.url,
+        events: flags.event as WebhookEvent[] | undefined,
+        status: flags.status,
+        disabled: flags.disabled,
+      })
+    );
+
+    this.log(`Webhook created: ${webhook?.id ?? ''}`);
+    return webhook;
+  }
+}
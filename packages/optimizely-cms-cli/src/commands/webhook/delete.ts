@@ -0,0 +1,22 @@
+import { Args } from '@oclif/core';
+import { BaseCommand } from '../../baseCommand.js';
+import { createWebhooksClient } from '../../service/graphWebhooks.js';
+
+export default class WebhookDelete extends BaseCommand<typeof WebhookDelete> {
+  static override args = {
+    id: Args.string({
+      description: 'ID of the webhook to delete',
+      required: true,
+    }),
+  };
+  static override description = 'Delete a webhook from Optimizely Graph';
+  static override examples = ['<%= config.bin %> <%= command.id %> <id>'];
+  static override flags = {};
+
+  public async run(): Promise<void> {
+    const { args } = await this.parse(WebhookDelete);
+
+    await createWebhooksClient().delete(args.id);
+    this.log(`Webhook deleted: ${args.id}`);
+  }
+}
@@ -0,0 +1,31 @@
+import { BaseCommand } from '../../baseCommand.js';
+import { createWebhooksClient, Webhook } from '../../service/graphWebhooks.js';
+
+export default class WebhookList extends BaseCommand<typeof WebhookList> {
+  static override description = 'List the webhooks registered in Optimizely Graph';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --json',
+  ];
+  static override flags = {};
+
+  public async run(): Promise<Webhook[]> {
+    await this.parse(WebhookList);
+
+    const webhooks = await createWebhooksClient().list();
+
+    if (webhooks.length === 0) {
+      this.log("You don't have any webhooks");
+    }
+
+    for (const webhook of webhooks) {
+      this.log(
+        `${webhook.id}  ${webhook.request.url}  [${(webhook.topic ?? []).join(
+          ', '
+        )}]${webhook.disabled ? '  (disabled)' : ''}`
+      );
+    }
+
+    return webhooks;
+  }
+}
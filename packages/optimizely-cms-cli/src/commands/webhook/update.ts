@@ -0,0 +1,72 @@
+import { Args, Flags } from '@oclif/core';
+import { BaseCommand } from '../../baseCommand.js';
+import {
+  createWebhooksClient,
+  getWebhookTopic,
+  Webhook,
+  WebhookEvent,
+  WEBHOOK_EVENTS,
+} from '../../service/graphWebhooks.js';
+
+export default class WebhookUpdate extends BaseCommand<typeof WebhookUpdate> {
+  static override args = {
+    id: Args.string({
+      description: 'ID of the webhook to update',
+      required: true,
+    }),
+  };
+  static override description =
+    'Update a webhook in Optimizely Graph. Values that are not given are kept';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> <id> --url https://example.com/webhooks/new-secret',
+    '<%= config.bin %> <%= command.id %> <id> --event doc',
+    '<%= config.bin %> <%= command.id %> <id> --disabled',
+    '<%= config.bin %> <%= command.id %> <id> --no-disabled',
+  ];
+  static override flags = {
+    url: Flags.string({
+      description: 'URL that receives the webhook requests',
+    }),
+    event: Flags.string({
+      description:
+        'Only trigger the webhook for this kind of event. Can be used multiple times',
+      options: [...WEBHOOK_EVENTS],
+      multiple: true,
+    }),
+    status: Flags.string({
+      description: 'Only trigger the webhook for documents with this status',
+    }),
+    disabled: Flags.boolean({
+      description: 'Disable or enable (with --no-disabled) the webhook',
+      allowNo: true,
+    }),
+  };
+
+  public async run(): Promise<Webhook> {
+    const { args, flags } = await this.parse(WebhookUpdate);
+
+    const client = createWebhooksClient();
+    const { id, ...input } = await client.get(args.id);
+
+    if (flags.url) {
+      input.request = { ...input.request, url: flags.url };
+    }
+
+    if (flags.event) {
+      input.topic = getWebhookTopic(flags.event as WebhookEvent[]);
+    }
+
+    if (flags.status) {
+      input.filters = { ...input.filters, status: { eq: flags.status } };
+    }
+
+    if (flags.disabled !== undefined) {
+      input.disabled = flags.disabled;
+    }
+
+    const webhook = await client.update(id, input);
+
+    this.log(`Webhook updated: ${id}`);
+    return webhook;
+  }
+}
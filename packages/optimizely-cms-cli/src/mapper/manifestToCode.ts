@@ -0,0 +1,343 @@
+import type { components } from '../service/apiSchema/openapi-schema-types.js';
+
+type Schemas = components['schemas'];
+type ContentType = Schemas['ContentType'];
+
+/** Attributes of a property (or its items) that can reference content types */
+type PropertyReferences = {
+  type: string;
+  contentType?: string | null;
+  allowedTypes?: string[] | null;
+  restrictedTypes?: string[] | null;
+  items?: PropertyReferences;
+};
+
+/** Source code of a file generated from the manifest */
+export type GeneratedFile = {
+  /** Path relative to the output directory */
+  path: string;
+  content: string;
+};
+
+/** A reference to a variable, printed without quotes */
+class Identifier {
+  constructor(public name: string) {}
+}
+
+/** Attributes of content types that are part of the SDK definitions */
+const CONTENT_TYPE_ATTRIBUTES = [
+  'key',
+  'displayName',
+  'description',
+  'baseType',
+  'mayContainTypes',
+  'compositionBehaviors',
+  'mediaFileExtensions',
+  'properties',
+];
+
+/** Attributes of display templates that are part of the SDK definitions */
+const DISPLAY_TEMPLATE_ATTRIBUTES = [
+  'key',
+  'displayName',
+  'baseType',
+  'nodeType',
+  'contentType',
+  'isDefault',
+  'settings',
+];
+
+const CONFIG_FILE = 'optimizely.config.mjs';
+
+function contentTypeName(key: string) {
+  return `${key}ContentType`;
+}
+
+function displayTemplateName(key: string) {
+  return `${key}DisplayTemplate`;
+}
+
+/** The REST API returns base types without the leading underscore */
+function toSdkBaseType(baseType: unknown) {
+  return typeof baseType === 'string' && !baseType.startsWith('_')
+    ? `_${baseType}`
+    : baseType;
+}
+
+function isEmpty(value: unknown) {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'object' && Object.keys(value).length === 0)
+  );
+}
+
+/** Returns the given attributes of `obj`, skipping empty values */
+function pick(obj: Record<string, unknown>, attributes: string[]) {
+  const result: Record<string, unknown> = {};
+
+  for (const attribute of attributes) {
+    if (!isEmpty(obj[attribute])) {
+      result[attribute] = obj[attribute];
+    }
+  }
+
+  return result;
+}
+
+/** Returns the keys of the content types referenced by a property */
+function getPropertyReferences(property: PropertyReferences): string[] {
+  return [
+    ...(typeof property.contentType === 'string' ? [property.contentType] : []),
+    ...(property.allowedTypes ?? []),
+    ...(property.restrictedTypes ?? []),
+    ...(property.items ? getPropertyReferences(property.items) : []),
+  ];
+}
+
+/** Returns the keys of the content types referenced by a content type */
+function getReferences(contentType: ContentType): string[] {
+  return [
+    ...(contentType.mayContainTypes ?? []),
+    ...Object.values(contentType.properties ?? {}).flatMap(
+      getPropertyReferences
+    ),
+  ];
+}
+
+/**
+ * Decides which references between content types are rendered as imports.
+ * References that would create a circular import (which fails at runtime)
+ * are rendered as keys instead.
+ *
+ * @returns A map from each content type key to the keys it can import
+ */
+function resolveImports(contentTypes: ContentType[]): Map<string, Set<string>> {
+  const keys = new Set(contentTypes.map((ct) => ct.key));
+  const imports = new Map<string, Set<string>>(
+    contentTypes.map((ct) => [ct.key, new Set<string>()])
+  );
+
+  const reaches = (from: string, to: string, seen = new Set<string>()) => {
+    if (from === to) return true;
+    seen.add(from);
+    for (const next of imports.get(from) ?? []) {
+      if (!seen.has(next) && reaches(next, to, seen)) return true;
+    }
+    return false;
+  };
+
+  for (const ct of contentTypes) {
+    for (const ref of getReferences(ct)) {
+      if (ref !== ct.key && keys.has(ref) && !reaches(ref, ct.key)) {
+        imports.get(ct.key)!.add(ref);
+      }
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Converts the property of the manifest into the SDK format.
+ * Reverts the transformations done by `mapContentToManifest`.
+ */
+function toSdkProperty(
+  property: object,
+  toReference: (key: string) => unknown
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [attribute, value] of Object.entries(property)) {
+    if (!isEmpty(value)) {
+      result[attribute] = value;
+    }
+  }
+
+  // In the API, links are components of the type `link`
+  if (result.type === 'component' && result.contentType === 'link') {
+    delete result.contentType;
+    result.type = 'link';
+  } else if (
+    result.type === 'component' &&
+    typeof result.contentType === 'string'
+  ) {
+    result.contentType = toReference(result.contentType);
+  }
+
+  if (result.enum && result.format === 'selectOne') {
+    delete result.format;
+  }
+
+  for (const attribute of ['allowedTypes', 'restrictedTypes']) {
+    const keys = result[attribute];
+    if (Array.isArray(keys)) {
+      result[attribute] = keys.map(toReference);
+    }
+  }
+
+  if (
+    result.type === 'array' &&
+    typeof result.items === 'object' &&
+    result.items !== null
+  ) {
+    const items = toSdkProperty(result.items, toReference);
+    result.items = items;
+
+    if (items.type === 'link' && result.format === 'LinkCollection') {
+      delete result.format;
+    }
+  }
+
+  return result;
+}
+
+function quote(value: string) {
+  return `'${value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')}'`;
+}
+
+function printKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+/** Prints a value as a TypeScript expression */
+function printValue(value: unknown, indent = ''): string {
+  const inner = indent + '  ';
+
+  if (value instanceof Identifier) {
+    return value.name;
+  }
+
+  if (typeof value === 'string') {
+    return quote(value);
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((v) => printValue(v, inner));
+    const inline = `[${items.join(', ')}]`;
+
+    if (!items.some((i) => i.includes('\n')) && inline.length <= 60) {
+      return inline;
+    }
+
+    return `[\n${items.map((i) => `${inner}${i},\n`).join('')}${indent}]`;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).map(
+      ([k, v]) => `${inner}${printKey(k)}: ${printValue(v, inner)},\n`
+    );
+
+    return entries.length === 0 ? '{}' : `{\n${entries.join('')}${indent}}`;
+  }
+
+  return String(value);
+}
+
+function printImports(imports: string[][]) {
+  return imports
+    .map(([name, from]) => `import { ${name} } from ${quote(from)};\n`)
+    .join('');
+}
+
+function generateContentType(
+  contentType: ContentType,
+  imports: Set<string>
+): GeneratedFile {
+  const toReference = (key: string) => {
+    if (key === contentType.key) return '_self';
+    if (imports.has(key)) return new Identifier(contentTypeName(key));
+    return key;
+  };
+
+  const definition = pick(
+    {
+      ...contentType,
+      baseType: toSdkBaseType(contentType.baseType),
+      mayContainTypes: contentType.mayContainTypes?.map(toReference),
+      properties: Object.fromEntries(
+        Object.entries(contentType.properties ?? {}).map(([key, p]) => [
+          key,
+          toSdkProperty(p, toReference),
+        ])
+      ),
+    },
+    CONTENT_TYPE_ATTRIBUTES
+  );
+
+  const name = contentTypeName(contentType.key);
+  const content =
+    printImports([
+      ['contentType', '@optimizely/cms-sdk'],
+      ...[...imports].map((key) => [
+        contentTypeName(key),
+        `./${contentTypeName(key)}`,
+      ]),
+    ]) + `\nexport const ${name} = contentType(${printValue(definition)});\n`;
+
+  return { path: `${name}.ts`, content };
+}
+
+function generateDisplayTemplate(
+  displayTemplate: Schemas['DisplayTemplate']
+): GeneratedFile {
+  const definition = pick(
+    {
+      ...displayTemplate,
+      baseType: toSdkBaseType(displayTemplate.baseType),
+      isDefault: displayTemplate.isDefault ?? false,
+    },
+    DISPLAY_TEMPLATE_ATTRIBUTES
+  );
+  // `settings` is required even if there are none
+  definition.settings ??= {};
+
+  const name = displayTemplateName(displayTemplate.key);
+  const content =
+    printImports([['displayTemplate', '@optimizely/cms-sdk']]) +
+    `\nexport const ${name} = displayTemplate(${printValue(definition)});\n`;
+
+  return { path: `${name}.ts`, content };
+}
+
+function generateConfig(
+  propertyGroups: Schemas['PropertyGroup'][]
+): GeneratedFile {
+  const config = {
+    components: ['./*.ts'],
+    propertyGroups: propertyGroups.map((g) =>
+      pick(g, ['key', 'displayName', 'sortOrder'])
+    ),
+  };
+
+  return {
+    path: CONFIG_FILE,
+    content:
+      printImports([['buildConfig', '@optimizely/cms-sdk']]) +
+      `\nexport default buildConfig(${printValue(config)});\n`,
+  };
+}
+
+/**
+ * Generates the TypeScript definitions of the content types and display
+ * templates in a manifest (as returned by `config pull`), and a configuration
+ * file with the property groups.
+ *
+ * References to other content types are rendered as imports, except when
+ * they would cause circular imports. Then they are rendered as keys.
+ */
+export function mapManifestToCode(
+  manifest: Schemas['Manifest']
+): GeneratedFile[] {
+  const contentTypes = manifest.contentTypes ?? [];
+  const imports = resolveImports(contentTypes);
+
+  return [
+    ...contentTypes.map((ct) => generateContentType(ct, imports.get(ct.key)!)),
+    ...(manifest.displayTemplates ?? []).map(generateDisplayTemplate),
+    generateConfig(manifest.propertyGroups ?? []),
+  ];
+}
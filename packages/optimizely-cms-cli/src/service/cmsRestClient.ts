@@ -1,11 +1,18 @@
+import { Errors } from '@oclif/core';
 import createClient from 'openapi-fetch';
 import { paths } from './apiSchema/openapi-schema-types.js';
-import { readEnvCredentials } from './config.js';
+import {
+  CmsCredentials,
+  CredentialOptions,
+  readCredentials,
+} from './config.js';
 import { credentialErrors } from './error.js';
 
-function rootUrl() {
+function rootUrl(apiUrl?: string) {
   const rootUrl =
-    process.env.OPTIMIZELY_CMS_API_URL || 'https://api.cms.optimizely.com';
+    apiUrl ||
+    process.env.OPTIMIZELY_CMS_API_URL ||
+    'https://api.cms.optimizely.com';
 
   if (rootUrl.endsWith('/')) {
     return rootUrl.slice(0, -1);
@@ -14,8 +21,12 @@ function rootUrl() {
   return rootUrl;
 }
 
-export async function getToken(clientId: string, clientSecret: string) {
-  const client = createClient<paths>({ baseUrl: rootUrl() });
+export async function getToken(
+  clientId: string,
+  clientSecret: string,
+  apiUrl?: string
+) {
+  const client = createClient<paths>({ baseUrl: rootUrl(apiUrl) });
 
   return client
     .POST('/oauth/token', {
@@ -56,12 +67,10 @@ export async function getToken(clientId: string, clientSecret: string) {
 export async function createRestApiClient({
   clientId,
   clientSecret,
-}: {
-  clientId: string;
-  clientSecret: string;
-}) {
-  const baseUrl = rootUrl() + '/preview3';
-  const accessToken = await getToken(clientId, clientSecret);
+  apiUrl,
+}: CmsCredentials) {
+  const baseUrl = rootUrl(apiUrl) + '/preview3';
+  const accessToken = await getToken(clientId, clientSecret, apiUrl);
 
   return createClient<paths>({
     baseUrl,
@@ -71,8 +80,68 @@ export async function createRestApiClient({
   });
 }
 
-export async function createApiClient(host?: string) {
-  const cred = readEnvCredentials();
+/**
+ * Creates a client for the CMS REST API with the credentials chosen by
+ * `--profile` or `--host` (see `readCredentials`)
+ */
+export async function createApiClient(options: CredentialOptions = {}) {
+  const cred = readCredentials(options);
   const client = await createRestApiClient(cred);
   return client;
 }
+
+/** Throws a `CLIError` if a request to the REST API failed */
+export function checkResponse<T>(
+  endpoint: string,
+  response: { data?: T; error?: any; response: Response }
+): T {
+  if (!response.data) {
+    const error = response.error;
+    throw new Errors.CLIError(
+      `Error ${response.response.status} in the request to ${endpoint}${
+        error?.title ? `: ${error.title}` : ''
+      }`
+    );
+  }
+
+  return response.data;
+}
+
+/** Number of items requested in each page of the REST API */
+const PAGE_SIZE = 100;
+
+/**
+ * Fetches all the pages of a paged endpoint of the REST API
+ *
+ * @param endpoint - Name of the endpoint, used in the error messages
+ * @param fetchPage - Sends the request for one page
+ */
+export async function fetchAllPages<T>(
+  endpoint: string,
+  fetchPage: (query: { pageIndex: number; pageSize: number }) => Promise<{
+    data?: { items?: T[]; pageIndex?: number; totalItemCount?: number };
+    error?: any;
+    response: Response;
+  }>
+): Promise<T[]> {
+  const result: T[] = [];
+
+  for (let pageIndex = 0; ; pageIndex++) {
+    const page = checkResponse(
+      endpoint,
+      await fetchPage({ pageIndex, pageSize: PAGE_SIZE })
+    );
+    result.push(...(page.items ?? []));
+
+    if (
+      (page.items?.length ?? 0) < PAGE_SIZE ||
+      result.length >= (page.totalItemCount ?? Infinity) ||
+      // The endpoint ignored the page index and returned the first page again
+      (page.pageIndex !== undefined && page.pageIndex !== pageIndex)
+    ) {
+      break;
+    }
+  }
+
+  return result;
+}
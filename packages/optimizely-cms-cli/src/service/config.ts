@@ -1,5 +1,6 @@
 /** Utilities to access the stored configuration (credentials) */
 
+import chalk from 'chalk';
 import Conf from 'conf';
 import { z } from 'zod';
 import { credentialErrors } from './error.js';
@@ -9,29 +10,130 @@ const CmsSettingsSchema = z.record(
   z.object({
     clientId: z.string(),
     clientSecret: z.string(),
+
+    /** Host of the CMS instance. Used to find the profile with `--host` */
+    host: z.string().optional(),
+
+    /** URL of the CMS REST API. Default: `https://api.cms.optimizely.com` */
+    apiUrl: z.string().optional(),
   })
 );
 
 const SettingsSchema = z.object({
   cms: CmsSettingsSchema,
+
+  /** Profile used when neither `--profile` nor `--host` are passed */
+  currentProfile: z.string().optional(),
 });
 
 /** Configuration file format */
 type Settings = z.infer<typeof SettingsSchema>;
 
+/** Credentials of a CMS instance stored with a name */
+export type Profile = Settings['cms'][string];
+
+export type CmsCredentials = {
+  clientId: string;
+  clientSecret: string;
+
+  /** URL of the CMS REST API. Defaults to the `OPTIMIZELY_CMS_API_URL` environment variable */
+  apiUrl?: string;
+};
+
+/** Options to choose the credentials. They match the global CLI flags */
+export type CredentialOptions = {
+  profile?: string;
+  host?: string;
+};
+
+function getConf() {
+  return new Conf<Settings>({
+    projectName: 'optimizely',
+    defaults: { cms: {} },
+  });
+}
+
+function readSettings(): Settings {
+  const conf = getConf();
+
+  return SettingsSchema.parse({
+    cms: conf.get('cms'),
+    currentProfile: conf.get('currentProfile'),
+  });
+}
+
+/** Removes the protocol and trailing slashes so hosts can be compared */
+export function normalizeHost(host: string) {
+  return host
+    .trim()
+    .replace(/^https?:\/\//, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
 /** Get all the instances saved in the configuration file */
 export function getInstances(): string[] {
-  const conf = new Conf<Settings>({ projectName: 'optimizely' });
   const result = [];
 
-  for (const k in CmsSettingsSchema.parse(conf.get('cms'))) {
+  for (const k in readSettings().cms) {
     result.push(k);
   }
 
   return result;
 }
 
-export function readEnvCredentials() {
+/** Get all the profiles saved in the configuration file and the current one */
+export function getProfiles(): {
+  profiles: Record<string, Profile>;
+  currentProfile?: string;
+} {
+  const { cms, currentProfile } = readSettings();
+
+  return { profiles: cms, currentProfile };
+}
+
+/**
+ * Saves the credentials of a profile, replacing the existing ones.
+ * The first profile saved becomes the current profile
+ */
+export function saveProfile(name: string, profile: Profile) {
+  const conf = getConf();
+  const { cms, currentProfile } = readSettings();
+
+  conf.set('cms', { ...cms, [name]: profile });
+
+  if (!currentProfile) {
+    conf.set('currentProfile', name);
+  }
+}
+
+/** Sets the profile used by default in all commands */
+export function useProfile(name: string) {
+  if (!readSettings().cms[name]) {
+    throw new credentialErrors.UnknownProfile(name);
+  }
+
+  getConf().set('currentProfile', name);
+}
+
+/** Removes a profile. If it is the current profile, no profile is used by default */
+export function removeProfile(name: string) {
+  const conf = getConf();
+  const { cms, currentProfile } = readSettings();
+
+  if (!cms[name]) {
+    throw new credentialErrors.UnknownProfile(name);
+  }
+
+  const { [name]: _, ...rest } = cms;
+  conf.set('cms', rest);
+
+  if (currentProfile === name) {
+    conf.delete('currentProfile');
+  }
+}
+
+export function readEnvCredentials(): CmsCredentials {
   const { OPTIMIZELY_CMS_CLIENT_ID, OPTIMIZELY_CMS_CLIENT_SECRET } =
     process.env;
 
@@ -44,3 +146,114 @@ export function readEnvCredentials() {
 
   throw new credentialErrors.MissingCredentials();
 }
+
+/** Credentials chosen by {@linkcode resolveCredentials} */
+export type ResolvedCredentials = {
+  credentials: CmsCredentials;
+
+  /** Where the credentials come from. For example `profile "prod"` */
+  source: string;
+};
+
+const ENV_SOURCE = 'the environment variables';
+
+/**
+ * Chooses the credentials to use, in this order:
+ *
+ * 1. The profile passed with `profile`
+ * 2. The profile with the given `host`. If there is none, the environment variables
+ * 3. The environment variables `OPTIMIZELY_CMS_CLIENT_ID` and `OPTIMIZELY_CMS_CLIENT_SECRET`
+ * 4. The current profile
+ */
+export function resolveCredentials(
+  settings: Settings,
+  env: CmsCredentials | undefined,
+  options: CredentialOptions = {}
+): ResolvedCredentials {
+  const { cms, currentProfile } = settings;
+
+  if (options.profile) {
+    const profile = cms[options.profile];
+
+    if (!profile) {
+      throw new credentialErrors.UnknownProfile(options.profile);
+    }
+
+    return { credentials: profile, source: `profile "${options.profile}"` };
+  }
+
+  if (options.host) {
+    const host = normalizeHost(options.host);
+    const name = Object.keys(cms).find((name) => {
+      const profileHost = cms[name].host;
+      return profileHost && normalizeHost(profileHost) === host;
+    });
+
+    if (name) {
+      return { credentials: cms[name], source: `profile "${name}"` };
+    }
+
+    if (env) {
+      return { credentials: env, source: ENV_SOURCE };
+    }
+
+    throw new credentialErrors.UnknownHost(options.host);
+  }
+
+  if (env) {
+    return { credentials: env, source: ENV_SOURCE };
+  }
+
+  if (currentProfile && cms[currentProfile]) {
+    return {
+      credentials: cms[currentProfile],
+      source: `profile "${currentProfile}"`,
+    };
+  }
+
+  throw new credentialErrors.MissingCredentials();
+}
+
+/**
+ * Read the credentials for the CMS from the stored profiles or the environment
+ * variables. Warns if the environment variables are defined but not used
+ */
+export function readCredentials(options: CredentialOptions = {}) {
+  const env = process.env.OPTIMIZELY_CMS_CLIENT_ID
+    ? readEnvCredentials()
+    : undefined;
+  const { credentials, source } = resolveCredentials(
+    readSettings(),
+    env,
+    options
+  );
+
+  if (env && source !== ENV_SOURCE) {
+    console.warn(
+      chalk.yellow(
+        `Using the credentials of the ${source} instead of the environment variables`
+      )
+    );
+  }
+
+  return credentials;
+}
+
+/** Read the credentials for the Optimizely Graph management API (webhooks) */
+export function readGraphCredentials() {
+  const {
+    OPTIMIZELY_GRAPH_APP_KEY,
+    OPTIMIZELY_GRAPH_SECRET,
+    OPTIMIZELY_GRAPH_API_URL,
+  } = process.env;
+
+  if (OPTIMIZELY_GRAPH_APP_KEY && OPTIMIZELY_GRAPH_SECRET) {
+    return {
+      appKey: OPTIMIZELY_GRAPH_APP_KEY,
+      secret: OPTIMIZELY_GRAPH_SECRET,
+      apiUrl: OPTIMIZELY_GRAPH_API_URL || 'https://prod.cg.optimizely.com/api',
+    };
+  }
+
+  throw new credentialErrors.MissingGraphCredentials();
+}
@@ -0,0 +1,342 @@
+import type {
+  components,
+  operations,
+} from './apiSchema/openapi-schema-types.js';
+import { fetchAllPages, type createApiClient } from './cmsRestClient.js';
+import type { Manifest } from './manifest.js';
+
+type ApiClient = Awaited<ReturnType<typeof createApiClient>>;
+type Schemas = components['schemas'];
+
+/** Attributes of a definition (or a property) by name */
+type Attributes = Record<string, unknown>;
+
+/** A definition identified by `key`, local or from the CMS */
+type Definition = Attributes & { key: string };
+
+type ContentTypeDefinition = Definition & {
+  baseType?: string;
+  properties?: Record<string, Attributes>;
+};
+
+/** The endpoint returns pages, but its schema doesn't declare the parameters */
+type PropertyGroupsQuery = NonNullable<
+  operations['PropertyGroups_List']['parameters']['query']
+> & { pageIndex: number; pageSize: number };
+
+/**
+ * - `added`: only in the local definitions
+ * - `removed`: only in the CMS
+ * - `changed`: in both, with different attributes
+ */
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+/** An attribute with a different value in the local definitions and in the CMS */
+export type AttributeChange = {
+  attribute: string;
+  local: unknown;
+  remote: unknown;
+};
+
+export type PropertyDiff = {
+  key: string;
+  status: DiffStatus;
+  changes: AttributeChange[];
+
+  /** True if pushing the local definition can delete existing content data */
+  dataLoss: boolean;
+};
+
+export type ContentTypeDiff = {
+  key: string;
+  status: DiffStatus;
+
+  /** Changes in the attributes of the content type (not the properties) */
+  changes: AttributeChange[];
+  properties: PropertyDiff[];
+
+  /** True if pushing the local definition can delete existing content data */
+  dataLoss: boolean;
+};
+
+export type ItemDiff = {
+  key: string;
+  status: DiffStatus;
+  changes: AttributeChange[];
+};
+
+export type ConfigDiff = {
+  contentTypes: ContentTypeDiff[];
+  displayTemplates: ItemDiff[];
+  propertyGroups: ItemDiff[];
+  hasChanges: boolean;
+  hasDataLoss: boolean;
+};
+
+/** Definitions stored in the CMS, as returned by the REST API */
+export type RemoteConfig = {
+  contentTypes: Schemas['ContentType'][];
+  displayTemplates: Schemas['DisplayTemplate'][];
+  propertyGroups: Schemas['PropertyGroup'][];
+};
+
+/** Attributes of a property (or its items) where a change makes the CMS drop the stored values */
+const LOSSY_PROPERTY_ATTRIBUTES = ['type', 'format', 'contentType'];
+
+/** Sources of the definitions that are not managed with the configuration file */
+const SYSTEM_SOURCES = ['system', 'serverModel'];
+
+function isAttributes(value: unknown): value is Attributes {
+  return typeof value === 'object' && value !== null;
+}
+
+/** The REST API returns base types without the leading underscore */
+function normalizeBaseType(baseType: unknown) {
+  return typeof baseType === 'string' ? baseType.replace(/^_/, '') : baseType;
+}
+
+/**
+ * Returns true if all the attributes defined in `local` have the same value
+ * in `remote`. Attributes that are only in `remote` (e.g. defaults set by the
+ * CMS) are ignored. Arrays of primitives are compared regardless of order.
+ */
+export function matchesRemote(local: unknown, remote: unknown): boolean {
+  if (Array.isArray(local)) {
+    if (!Array.isArray(remote) || local.length !== remote.length) {
+      return false;
+    }
+
+    if (local.every((v) => typeof v !== 'object' || v === null)) {
+      const sortedRemote = [...remote].sort();
+      return [...local].sort().every((v, i) => v === sortedRemote[i]);
+    }
+
+    return local.every((v, i) => matchesRemote(v, remote[i]));
+  }
+
+  if (isAttributes(local)) {
+    if (!isAttributes(remote)) {
+      return false;
+    }
+
+    return Object.entries(local).every(
+      ([key, value]) => value === undefined || matchesRemote(value, remote[key])
+    );
+  }
+
+  return local === remote;
+}
+
+/** Compares the attributes of `local` (except the `ignored` ones) with `remote` */
+function diffAttributes(
+  local: Attributes,
+  remote: Attributes,
+  ignored: string[] = []
+): AttributeChange[] {
+  return Object.entries(local)
+    .filter(([attribute, value]) => {
+      return (
+        value !== undefined &&
+        !ignored.includes(attribute) &&
+        !matchesRemote(value, remote[attribute])
+      );
+    })
+    .map(([attribute, value]) => ({
+      attribute,
+      local: value,
+      remote: remote[attribute],
+    }));
+}
+
+/** Compares two lists of definitions by `key` */
+function diffByKey<T, D extends Definition = Definition>(
+  local: D[],
+  remote: D[],
+  compare: (local: D, remote: D) => T | null,
+  create: (key: string, status: 'added' | 'removed') => T
+): T[] {
+  const remoteByKey = new Map(remote.map((item) => [item.key, item]));
+  const localKeys = new Set(local.map((item) => item.key));
+  const result: T[] = [];
+
+  for (const item of local) {
+    const remoteItem = remoteByKey.get(item.key);
+    const diff = remoteItem
+      ? compare(item, remoteItem)
+      : create(item.key, 'added');
+
+    if (diff) {
+      result.push(diff);
+    }
+  }
+
+  for (const item of remote) {
+    if (!localKeys.has(item.key)) {
+      result.push(create(item.key, 'removed'));
+    }
+  }
+
+  return result;
+}
+
+/** Returns true if the change makes the CMS drop the values stored in the property */
+function isLossyChange({ attribute, local, remote }: AttributeChange) {
+  if (attribute === 'items') {
+    const localItems = isAttributes(local) ? local : {};
+    const remoteItems = isAttributes(remote) ? remote : {};
+
+    return LOSSY_PROPERTY_ATTRIBUTES.some(
+      (a) =>
+        localItems[a] !== undefined &&
+        !matchesRemote(localItems[a], remoteItems[a])
+    );
+  }
+
+  return LOSSY_PROPERTY_ATTRIBUTES.includes(attribute);
+}
+
+function diffProperties(
+  local: Record<string, Attributes>,
+  remote: Record<string, Attributes>
+): PropertyDiff[] {
+  const toList = (properties: Record<string, Attributes>) =>
+    Object.entries(properties).map(([key, p]) => ({ ...p, key }));
+
+  return diffByKey<PropertyDiff>(
+    toList(local),
+    toList(remote),
+    (localProperty, remoteProperty) => {
+      const changes = diffAttributes(localProperty, remoteProperty, ['key']);
+
+      if (changes.length === 0) {
+        return null;
+      }
+
+      return {
+        key: localProperty.key,
+        status: 'changed',
+        changes,
+        dataLoss: changes.some(isLossyChange),
+      };
+    },
+    (key, status) => ({
+      key,
+      status,
+      changes: [],
+      dataLoss: status === 'removed',
+    })
+  );
+}
+
+function diffContentTypes(
+  local: ContentTypeDefinition[],
+  remote: ContentTypeDefinition[]
+): ContentTypeDiff[] {
+  return diffByKey<ContentTypeDiff, ContentTypeDefinition>(
+    local,
+    remote,
+    (localType, remoteType) => {
+      const changes = diffAttributes(
+        { ...localType, baseType: normalizeBaseType(localType.baseType) },
+        { ...remoteType, baseType: normalizeBaseType(remoteType.baseType) },
+        ['key', 'properties']
+      );
+      const properties = diffProperties(
+        localType.properties ?? {},
+        remoteType.properties ?? {}
+      );
+
+      if (changes.length === 0 && properties.length === 0) {
+        return null;
+      }
+
+      return {
+        key: localType.key,
+        status: 'changed',
+        changes,
+        properties,
+        dataLoss:
+          changes.some((c) => c.attribute === 'baseType') ||
+          properties.some((p) => p.dataLoss),
+      };
+    },
+    // `config push` does not delete content types that are only in the CMS
+    (key, status) => ({
+      key,
+      status,
+      changes: [],
+      properties: [],
+      dataLoss: false,
+    })
+  );
+}
+
+function diffItems(local: Definition[], remote: Definition[]): ItemDiff[] {
+  return diffByKey<ItemDiff>(
+    local,
+    remote,
+    (localItem, remoteItem) => {
+      const changes = diffAttributes(localItem, remoteItem, ['key']);
+
+      return changes.length > 0
+        ? { key: localItem.key, status: 'changed', changes }
+        : null;
+    },
+    (key, status) => ({ key, status, changes: [] })
+  );
+}
+
+/**
+ * Compares the local definitions with the ones stored in the CMS.
+ * Definitions whose source is the system are ignored.
+ */
+export function diffConfig(local: Manifest, remote: RemoteConfig): ConfigDiff {
+  const isUserDefined = (item: { source?: string }) =>
+    !SYSTEM_SOURCES.includes(item.source ?? '');
+
+  const contentTypes = diffContentTypes(
+    local.contentTypes,
+    remote.contentTypes.filter(isUserDefined)
+  );
+  const displayTemplates = diffItems(
+    local.displayTemplates,
+    remote.displayTemplates
+  );
+  const propertyGroups = diffItems(
+    local.propertyGroups,
+    remote.propertyGroups.filter(isUserDefined)
+  );
+
+  return {
+    contentTypes,
+    displayTemplates,
+    propertyGroups,
+    hasChanges:
+      contentTypes.length > 0 ||
+      displayTemplates.length > 0 ||
+      propertyGroups.length > 0,
+    hasDataLoss: contentTypes.some((ct) => ct.dataLoss),
+  };
+}
+
+/** Fetches the content types, display templates and property groups stored in the CMS */
+export async function fetchRemoteConfig(
+  client: ApiClient
+): Promise<RemoteConfig> {
+  const contentTypes = await fetchAllPages('/contenttypes', (query) =>
+    client.GET('/contenttypes', { params: { query } })
+  );
+  const displayTemplates = await fetchAllPages('/displaytemplates', (query) =>
+    client.GET('/displaytemplates', { params: { query } })
+  );
+  const propertyGroups = await fetchAllPages('/propertygroups', (paging) => {
+    const query: PropertyGroupsQuery = paging;
+    return client.GET('/propertygroups', { params: { query } });
+  });
+
+  return {
+    contentTypes,
+    displayTemplates,
+    propertyGroups,
+  };
+}
@@ -0,0 +1,320 @@
+import type { components } from './apiSchema/openapi-schema-types.js';
+import {
+  checkResponse,
+  fetchAllPages,
+  type createApiClient,
+} from './cmsRestClient.js';
+
+type ApiClient = Awaited<ReturnType<typeof createApiClient>>;
+type ContentItem = components['schemas']['ContentItem'];
+type VersionStatus = components['schemas']['VersionStatus'];
+
+/** Statuses of the versions that can be exported. Previous and rejected versions are not */
+const EXPORTED_STATUSES: VersionStatus[] = [
+  'draft',
+  'ready',
+  'published',
+  'scheduled',
+  'inReview',
+];
+
+/**
+ * References to other content are stored in the properties as URIs like
+ * `cms://content/<key>`, optionally followed by a locale or version
+ */
+const CONTENT_URI = /cms:\/\/content\/([A-Za-z0-9]+)/g;
+
+/** A content item in the export, with one version for each locale */
+export type ExportedContent = {
+  key: string;
+  contentType?: string;
+  container?: string | null;
+  owner?: string | null;
+  versions: ContentItem[];
+};
+
+/** Content referenced by the exported items that is not part of the export */
+export type ExternalReference = {
+  key: string;
+  contentType?: string;
+};
+
+/** Index of an export */
+export type ContentExport = {
+  root: string;
+
+  /** Keys of the exported items. Containers and owners go before their items */
+  items: string[];
+
+  /**
+   * Content (usually media like images) that must exist in the target
+   * instance with the same key for the references to work after importing
+   */
+  references: ExternalReference[];
+};
+
+export type ContentImport = {
+  /** New key for every imported item, by its key in the export */
+  keys: Record<string, string>;
+
+  /** References to content that is not part of the export. They are kept unchanged */
+  unresolvedReferences: string[];
+};
+
+/** Returns the keys of all content referenced in a value */
+export function findContentReferences(value: unknown): string[] {
+  const keys = new Set<string>();
+
+  const visit = (v: unknown) => {
+    if (typeof v === 'string') {
+      for (const match of v.matchAll(CONTENT_URI)) {
+        keys.add(match[1]);
+      }
+    } else if (Array.isArray(v)) {
+      v.forEach(visit);
+    } else if (typeof v === 'object' && v !== null) {
+      Object.values(v).forEach(visit);
+    }
+  };
+
+  visit(value);
+
+  return [...keys];
+}
+
+/** Replaces the references to content in a value with the new keys */
+export function remapContentReferences<T>(
+  value: T,
+  keys: Record<string, string>
+): T {
+  if (typeof value === 'string') {
+    return value.replace(
+      CONTENT_URI,
+      (_, key: string) => `cms://content/${keys[key] ?? key}`
+    ) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((v) => remapContentReferences(v, keys)) as T;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        remapContentReferences(v, keys),
+      ])
+    ) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Returns one version for each locale: the published version if there is
+ * one, otherwise the most recently modified
+ */
+export function selectVersions(versions: ContentItem[]): ContentItem[] {
+  const byLocale = new Map<string, ContentItem>();
+
+  for (const version of versions) {
+    const locale = version.locale ?? '';
+    const selected = byLocale.get(locale);
+
+    if (
+      !selected ||
+      (version.status === 'published' && selected.status !== 'published') ||
+      (selected.status !== 'published' &&
+        (version.lastModified ?? '') > (selected.lastModified ?? ''))
+    ) {
+      byLocale.set(locale, version);
+    }
+  }
+
+  return [...byLocale.values()];
+}
+
+/**
+ * Exports the content with key `root` and all its items (recursively),
+ * including the assets owned by them.
+ *
+ * @param onItem - Called every time an item is exported
+ */
+export async function exportContent(
+  client: ApiClient,
+  root: string,
+  onItem?: (item: ExportedContent) => void
+): Promise<{ index: ContentExport; items: ExportedContent[] }> {
+  const items: ExportedContent[] = [];
+  const visited = new Set<string>();
+  const queue = [root];
+
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const metadata = checkResponse(
+      `/content/${key}`,
+      await client.GET('/content/{key}', { params: { path: { key } } })
+    );
+    const versions = await fetchAllPages(`/content/${key}/versions`, (query) =>
+      client.GET('/content/{key}/versions', {
+        params: {
+          path: { key },
+          query: { ...query, statuses: EXPORTED_STATUSES },
+        },
+      })
+    );
+
+    const item: ExportedContent = {
+      key,
+      contentType: metadata.contentType,
+      container: metadata.container,
+      owner: metadata.owner,
+      versions: selectVersions(versions),
+    };
+    items.push(item);
+    onItem?.(item);
+
+    const children = metadata.hasItems
+      ? await fetchAllPages(`/content/${key}/items`, (query) =>
+          client.GET('/content/{key}/items', {
+            params: { path: { key }, query },
+          })
+        )
+      : [];
+    const assets = await fetchAllPages(`/content/${key}/assets`, (query) =>
+      client.GET('/content/{key}/assets', {
+        params: { path: { key }, query },
+      })
+    );
+
+    queue.push(...[...children, ...assets].flatMap((c) => c.key ?? []));
+  }
+
+  const references: ExternalReference[] = [];
+
+  for (const key of findContentReferences(items.map((i) => i.versions))) {
+    if (visited.has(key)) continue;
+
+    const response = await client.GET('/content/{key}', {
+      params: { path: { key } },
+    });
+    references.push({ key, contentType: response.data?.contentType });
+  }
+
+  return {
+    index: { root, items: items.map((i) => i.key), references },
+    items,
+  };
+}
+
+/** Returns the attributes of a version that are sent when importing it */
+function toImportedVersion(version: ContentItem, keys: Record<string, string>) {
+  const published = version.status === 'published';
+
+  return {
+    displayName: version.displayName,
+    locale: version.locale,
+    routeSegment: version.routeSegment,
+    properties: remapContentReferences(version.properties ?? {}, keys),
+    status: published ? 'published' : 'draft',
+    ...(published && { published: version.published }),
+    expired: version.expired,
+  } as ContentItem;
+}
+
+/**
+ * Creates the exported items in another instance, under the content with
+ * key `parent`. The CMS generates new keys for the items, and the references
+ * between them are changed to the new keys.
+ *
+ * Items are created first without properties, so the references can be
+ * changed even if an item references another one that is imported later.
+ *
+ * @param items - Exported items, containers and owners before their items
+ * @param onItem - Called every time an item is imported
+ */
+export async function importContent(
+  client: ApiClient,
+  items: ExportedContent[],
+  root: string,
+  parent: string,
+  onItem?: (item: ExportedContent, key: string) => void
+): Promise<ContentImport> {
+  const keys: Record<string, string> = {};
+  const drafts: Record<string, string | undefined> = {};
+
+  for (const item of items) {
+    const [first] = item.versions;
+
+    if (!first) continue;
+
+    const created = checkResponse(
+      '/content',
+      await client.POST('/content', {
+        headers: { accept: 'application/json' },
+        params: { query: { skipValidation: true } },
+        body: {
+          contentType: item.contentType,
+          displayName: first.displayName,
+          locale: first.locale,
+          container:
+            item.key === root
+              ? parent
+              : item.container && (keys[item.container] ?? item.container),
+          owner: item.owner && (keys[item.owner] ?? item.owner),
+          properties: {},
+          status: 'draft',
+        } as ContentItem,
+      })
+    ) as ContentItem;
+
+    keys[item.key] = created.key;
+    drafts[item.key] = created.version;
+  }
+
+  for (const item of items) {
+    const key = keys[item.key];
+
+    if (!key) continue;
+
+    for (const [i, version] of item.versions.entries()) {
+      const body = toImportedVersion(version, keys);
+      const draft = drafts[item.key];
+
+      // The first version updates the draft created without properties
+      if (i === 0 && draft) {
+        checkResponse(
+          `/content/${key}/versions/${draft}`,
+          await client.PATCH('/content/{key}/versions/{version}', {
+            headers: { 'content-type': 'application/merge-patch+json' },
+            params: {
+              path: { key, version: draft },
+              query: { locale: version.locale },
+            },
+            body,
+          })
+        );
+      } else {
+        checkResponse(
+          `/content/${key}/versions`,
+          await client.POST('/content/{key}/versions', {
+            params: { path: { key } },
+            body,
+          })
+        );
+      }
+    }
+
+    onItem?.(item, key);
+  }
+
+  const unresolvedReferences = findContentReferences(
+    items.map((i) => i.versions)
+  ).filter((key) => !keys[key]);
+
+  return { keys, unresolvedReferences };
+}
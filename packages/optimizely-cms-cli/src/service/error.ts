@@ -18,7 +18,28 @@ export const credentialErrors = {
   MissingCredentials: class MissingCredentials extends CLIError {
     constructor() {
       super(
-        'Credentials not provided. Get the Client ID and Secret from the CMS and define the environment variables `OPTIMIZELY_CMS_CLIENT_ID` and `OPTIMIZELY_CMS_CLIENT_SECRET`'
+        'Credentials not provided. Get the Client ID and Secret from the CMS and define the environment variables `OPTIMIZELY_CMS_CLIENT_ID` and `OPTIMIZELY_CMS_CLIENT_SECRET` or save them with `login --profile <name>`'
+      );
+    }
+  },
+  UnknownProfile: class UnknownProfile extends CLIError {
+    constructor(profile: string) {
+      super(
+        `The profile "${profile}" does not exist. Run \`profile list\` to see the saved profiles or \`login --profile ${profile}\` to create it`
+      );
+    }
+  },
+  UnknownHost: class UnknownHost extends CLIError {
+    constructor(host: string) {
+      super(
+        `There is no profile for the host "${host}". Save the credentials of the instance with \`login --profile <name> --host ${host}\``
+      );
+    }
+  },
+  MissingGraphCredentials: class MissingGraphCredentials extends CLIError {
+    constructor() {
+      super(
+        'Graph credentials not provided. Go to your CMS > Settings > API Keys and define the environment variables `OPTIMIZELY_GRAPH_APP_KEY` and `OPTIMIZELY_GRAPH_SECRET` with the keys under "Manage Graph"'
       );
     }
   },
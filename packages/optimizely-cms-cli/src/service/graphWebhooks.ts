@@ -0,0 +1,109 @@
+/**
+ * Client for the webhooks endpoints of the Optimizely Graph API
+ *
+ * Read more: https://docs.developers.optimizely.com/platform-optimizely/reference/create-webhookhandler
+ */
+import { Errors } from '@oclif/core';
+import { readGraphCredentials } from './config.js';
+
+/** Kind of events that trigger a webhook */
+export const WEBHOOK_EVENTS = ['doc', 'bulk'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Webhook as returned by the Graph API */
+export type Webhook = {
+  id: string;
+  disabled?: boolean;
+  request: {
+    url: string;
+    method: string;
+    headers?: Record<string, string>;
+  };
+  topic?: string[];
+  filters?: Record<string, unknown>;
+};
+
+/** Body of the requests to create or update a webhook */
+export type WebhookInput = Omit<Webhook, 'id'>;
+
+/** Topics that trigger a webhook, given a list of events. All topics if empty */
+export function getWebhookTopic(events?: WebhookEvent[]) {
+  return events && events.length > 0 ? events.map((e) => `${e}.*`) : ['*.*'];
+}
+
+/**
+ * Build the body of a request to create or update a webhook
+ *
+ * @param options.events Events that trigger the webhook. All if empty
+ * @param options.status Only trigger the webhook for documents with this status
+ */
+export function createWebhookInput(options: {
+  url: string;
+  events?: WebhookEvent[];
+  status?: string;
+  disabled?: boolean;
+}): WebhookInput {
+  return {
+    disabled: options.disabled ?? false,
+    request: { url: options.url, method: 'post' },
+    topic: getWebhookTopic(options.events),
+    filters: options.status ? { status: { eq: options.status } } : {},
+  };
+}
+
+/** Create a client to manage webhooks with the credentials from environment variables */
+export function createWebhooksClient() {
+  const { appKey, secret, apiUrl } = readGraphCredentials();
+  const endpoint = `${apiUrl.replace(/\/$/, '')}/webhooks`;
+  const authorization =
+    'Basic ' + Buffer.from(`${appKey}:${secret}`).toString('base64');
+
+  async function request(path: string, init: RequestInit = {}) {
+    const response = await fetch(endpoint + path, {
+      ...init,
+      headers: {
+        authorization,
+        'content-type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Errors.CLIError(
+        `The Graph API responded with ${response.status} ${
+          response.statusText
+        }: ${await response.text()}`
+      );
+    }
+
+    const text = await response.text();
+    return text ? JSON.parse(text) : undefined;
+  }
+
+  return {
+    list(): Promise<Webhook[]> {
+      return request('');
+    },
+
+    async get(id: string): Promise<Webhook> {
+      const webhook = (await this.list()).find((w) => w.id === id);
+
+      if (!webhook) {
+        throw new Errors.CLIError(`The webhook "${id}" does not exist`);
+      }
+
+      return webhook;
+    },
+
+    create(input: WebhookInput): Promise<Webhook> {
+      return request('', { method: 'POST', body: JSON.stringify(input) });
+    },
+
+    update(id: string, input: WebhookInput): Promise<Webhook> {
+      return request(`/${id}`, { method: 'PUT', body: JSON.stringify(input) });
+    },
+
+    async delete(id: string): Promise<void> {
+      await request(`/${id}`, { method: 'DELETE' });
+    },
+  };
+}
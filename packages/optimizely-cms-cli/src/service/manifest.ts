@@ -0,0 +1,87 @@
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { PropertyGroupType } from '@optimizely/cms-sdk';
+import { mapContentToManifest } from '../mapper/contentToPackage.js';
+import {
+  AnyContentType,
+  DisplayTemplate,
+  findMetaData,
+  normalizePropertyGroups,
+  readFromPath,
+} from './utils.js';
+
+/** Content types, display templates and property groups sent to the CMS */
+export type Manifest = {
+  contentTypes: any[];
+  displayTemplates: DisplayTemplate[];
+  propertyGroups: PropertyGroupType[];
+};
+
+/** Sections of the configuration file */
+export type Config = {
+  componentPaths: string[];
+  propertyGroups?: any[];
+
+  /** URL of the directory of the configuration file. Component paths are relative to it */
+  configPathDirectory: string;
+};
+
+/**
+ * Reads a configuration file
+ * @param configFile - Path of the configuration file, relative to the current directory
+ */
+export async function readConfig(configFile: string): Promise<Config> {
+  const configFilePath = path.resolve(process.cwd(), configFile);
+  const configPath = pathToFileURL(configFilePath).href;
+
+  return {
+    componentPaths: await readFromPath(configPath, 'components'),
+    propertyGroups: await readFromPath(configPath, 'propertyGroups'),
+
+    //the pattern is relative to the config file
+    configPathDirectory: pathToFileURL(path.dirname(configFilePath)).href,
+  };
+}
+
+/** Builds the manifest with the given definitions */
+export function createManifest(
+  contentTypes: AnyContentType[],
+  displayTemplates: DisplayTemplate[],
+  propertyGroups: any[] | undefined,
+  quiet = false
+): Manifest {
+  // Validate and normalize property groups
+  const normalizedPropertyGroups = propertyGroups
+    ? normalizePropertyGroups(propertyGroups, quiet)
+    : [];
+
+  return {
+    contentTypes: mapContentToManifest(contentTypes),
+    displayTemplates,
+    propertyGroups: normalizedPropertyGroups,
+  };
+}
+
+/**
+ * Reads a configuration file and builds the manifest with the content types
+ * and display templates found in its `components` paths.
+ *
+ * @param configFile - Path of the configuration file, relative to the current directory
+ * @param quiet - Do not log the definitions found
+ */
+export async function buildManifest(
+  configFile: string,
+  quiet = false
+): Promise<Manifest> {
+  const { componentPaths, propertyGroups, configPathDirectory } =
+    await readConfig(configFile);
+
+  // extracts metadata(contentTypes, displayTemplates) from the component paths
+  const { contentTypes, displayTemplates } = await findMetaData(
+    componentPaths,
+    configPathDirectory,
+    quiet
+  );
+
+  return createManifest(contentTypes, displayTemplates, propertyGroups, quiet);
+}
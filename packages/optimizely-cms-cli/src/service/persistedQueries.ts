@@ -0,0 +1,66 @@
+import { Errors } from '@oclif/core';
+import type { PersistedQueriesOptions, SearchFacet } from '@optimizely/cms-sdk';
+
+/** Fields of `_metadata` that can be used as facets in a search */
+export const SEARCH_FACETS = [
+  'types',
+  'locale',
+  'status',
+] as const satisfies readonly SearchFacet[];
+
+/** Splits a comma-separated list, skipping empty values */
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v !== '');
+}
+
+/**
+ * Converts the `--select` and `--facets` flags of `config export-queries`
+ * into the options of `createPersistedQueries`.
+ *
+ * @param select - Selections in the format `ContentType:path1,path2`
+ * @param facets - Facets of a search in the format `facet1,facet2`
+ */
+export function parsePersistedQueriesOptions(
+  select: string[] = [],
+  facets: string[] = []
+): PersistedQueriesOptions {
+  const options: Required<PersistedQueriesOptions> = {
+    select: {},
+    searchFacets: [],
+  };
+
+  for (const value of select) {
+    const separator = value.indexOf(':');
+    const key = value.slice(0, separator).trim();
+    const paths = splitList(value.slice(separator + 1));
+
+    if (separator === -1 || key === '' || paths.length === 0) {
+      throw new Errors.CLIError(
+        `Invalid --select "${value}". Use the format ContentType:path1,path2`
+      );
+    }
+
+    options.select[key] ??= [];
+    options.select[key].push(paths);
+  }
+
+  for (const value of facets) {
+    const list = splitList(value);
+    const invalid = list.find(
+      (f) => !(SEARCH_FACETS as readonly string[]).includes(f)
+    );
+
+    if (list.length === 0 || invalid !== undefined) {
+      throw new Errors.CLIError(
+        `Invalid --facets "${value}". Use a comma-separated list of ${SEARCH_FACETS.join(', ')}`
+      );
+    }
+
+    options.searchFacets.push(list as SearchFacet[]);
+  }
+
+  return options;
+}
@@ -2,6 +2,7 @@ import { glob } from 'glob';
 import * as esbuild from 'esbuild';
 import { tmpdir } from 'node:os';
 import { mkdtemp } from 'node:fs/promises';
+import { createRequire } from 'node:module';
 
 import {
   ContentTypes,
@@ -14,6 +15,8 @@ import chalk from 'chalk';
 import * as path from 'node:path';
 import { fileURLToPath, pathToFileURL } from 'node:url';
 
+const require = createRequire(import.meta.url);
+
 export type Prettify<T> = {
   [K in keyof T]: T[K];
 } & {};
@@ -91,6 +94,24 @@ export function extractMetaData(obj: unknown): {
   };
 }
 
+/**
+ * Returns the esbuild options to compile `inputName` (relative to `cwdPath`)
+ * into a CommonJS bundle at `outPath`. Used by `push` and `push --watch`
+ */
+export function getCompileOptions(
+  inputName: string,
+  cwdPath: string,
+  outPath: string,
+) {
+  return {
+    entryPoints: [inputName],
+    absWorkingDir: cwdPath,
+    bundle: true,
+    platform: 'node',
+    outfile: outPath,
+  } satisfies esbuild.BuildOptions;
+}
+
 /** Compiles the `fileName` into a JavaScript file in a temporal directory and imports it */
 async function compileAndImport(
   inputName: string,
@@ -102,18 +123,27 @@ async function compileAndImport(
   const outPath = path.join(outDir, `${inputName}.js`);
 
   // TODO: log outPath in verbose mode
-  await esbuild.build({
-    entryPoints: [inputName],
-    absWorkingDir: cwdPath,
-    bundle: true,
-    platform: 'node',
-    outfile: outPath,
-  });
+  await esbuild.build(getCompileOptions(inputName, cwdPath, outPath));
+
+  return importCompiled(outPath);
+}
 
+/**
+ * Imports a compiled file. Pass a different `version` to import the file
+ * again after it has been recompiled (Node.js caches imported modules)
+ */
+export async function importCompiled(outPath: string, version?: number) {
   try {
+    // CommonJS modules are cached by path, also when imported with `import()`
+    if (version !== undefined) {
+      delete require.cache[outPath];
+    }
+
     // Note we must pass "File URL paths" when importing with `import()`
     const outUrl = pathToFileURL(outPath).href;
-    const f = await import(outUrl);
+    const f = await import(
+      version === undefined ? outUrl : `${outUrl}?v=${version}`
+    );
     return f;
   } catch (err) {
     throw new Error(
@@ -124,16 +154,11 @@ async function compileAndImport(
   }
 }
 
-/** Finds metadata (contentTypes, displayTemplates) in the given paths */
-export async function findMetaData(
+/** Returns the files that match the component paths, relative to `cwd` */
+export async function findComponentFiles(
   componentPaths: string[],
   cwd: string,
-): Promise<{
-  contentTypes: AnyContentType[];
-  displayTemplates: DisplayTemplate[];
-}> {
-  const tmpDir = await mkdtemp(path.join(tmpdir(), 'optimizely-cli-'));
-
+): Promise<string[]> {
   // Normalize and clean component paths (trim and remove empty patterns)
   const cleanedPaths = componentPaths
     .map((p) => p.trim())
@@ -167,7 +192,23 @@ export async function findMetaData(
   ).flat();
 
   // Remove duplicates and sort
-  const allFiles = [...new Set(allFilesWithDuplicates)].sort();
+  return [...new Set(allFilesWithDuplicates)].sort();
+}
+
+/**
+ * Finds metadata (contentTypes, displayTemplates) in the given paths.
+ * Logs every definition found unless `quiet` is set
+ */
+export async function findMetaData(
+  componentPaths: string[],
+  cwd: string,
+  quiet = false,
+): Promise<{
+  contentTypes: AnyContentType[];
+  displayTemplates: DisplayTemplate[];
+}> {
+  const tmpDir = await mkdtemp(path.join(tmpdir(), 'optimizely-cli-'));
+  const allFiles = await findComponentFiles(componentPaths, cwd);
 
   // Process each file
   const result2 = {
@@ -180,12 +221,12 @@ export async function findMetaData(
     const { contentTypeData, displayTemplateData } = extractMetaData(loaded);
 
     for (const c of contentTypeData) {
-      printFilesContents('Content Type', file, c);
+      if (!quiet) printFilesContents('Content Type', file, c);
       result2.contentTypes.push(c);
     }
 
     for (const d of displayTemplateData) {
-      printFilesContents('Display Template', file, d);
+      if (!quiet) printFilesContents('Display Template', file, d);
       result2.displayTemplates.push(d);
     }
   }
@@ -218,11 +259,13 @@ export async function readFromPath(configPath: string, section: string) {
  * - Auto-assigns sortOrder based on array position (index + 1) if missing
  * - Deduplicates property groups by key, keeping the first occurrence
  * @param propertyGroups - The property groups array from the config
+ * @param quiet - Do not log the property groups found
  * @returns Validated and normalized property groups array
  * @throws Error if validation fails (empty or missing key)
  */
 export function normalizePropertyGroups(
   propertyGroups: any[],
+  quiet = false,
 ): PropertyGroupType[] {
   if (!Array.isArray(propertyGroups)) {
     throw new Error('propertyGroups must be an array');
@@ -285,7 +328,7 @@ export function normalizePropertyGroups(
   }
 
   // Log found property groups
-  if (deduplicatedGroups.length > 0) {
+  if (deduplicatedGroups.length > 0 && !quiet) {
     const groupKeys = deduplicatedGroups.map((g) => g.displayName).join(', ');
     console.log('Property Groups found: %s', chalk.bold.cyan(`[${groupKeys}]`));
   }
@@ -0,0 +1,290 @@
+import * as esbuild from 'esbuild';
+import { watch } from 'node:fs';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import chalk from 'chalk';
+import { createManifest, Manifest, readConfig } from './manifest.js';
+import {
+  AnyContentType,
+  DisplayTemplate,
+  extractMetaData,
+  findComponentFiles,
+  getCompileOptions,
+  importCompiled,
+} from './utils.js';
+
+/** Time to wait for more file changes before recompiling */
+const DEBOUNCE_MS = 100;
+
+/** A component file compiled with an incremental esbuild context */
+type CompiledFile = {
+  context: esbuild.BuildContext;
+  outPath: string;
+
+  /** Absolute paths of the files bundled in the output (the file and its imports) */
+  inputs: Set<string>;
+
+  /** Compiled code that was last imported */
+  code?: string;
+  contentTypes: AnyContentType[];
+  displayTemplates: DisplayTemplate[];
+};
+
+export type ManifestWatcher = {
+  close(): Promise<void>;
+};
+
+export type WatchManifestOptions = {
+  /**
+   * Paths of files and directories that are not watched, relative to the
+   * current directory. For example the output of the command
+   */
+  ignore?: string[];
+};
+
+/** Directories that are never watched */
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+/** Returns the keys of the definitions that are different in both lists */
+function getChangedKeys(previous: { key: string }[], next: { key: string }[]) {
+  const previousByKey = new Map(
+    previous.map((item) => [item.key, JSON.stringify(item)])
+  );
+  const nextKeys = new Set(next.map((item) => item.key));
+
+  return [
+    ...next
+      .filter((item) => previousByKey.get(item.key) !== JSON.stringify(item))
+      .map((item) => item.key),
+    ...previous
+      .filter((item) => !nextKeys.has(item.key))
+      .map((item) => item.key),
+  ];
+}
+
+/**
+ * Returns the component files that must be recompiled after the files in
+ * `changed` changed: the ones that include a changed file and the ones that
+ * match the component paths but were not compiled yet. Changes in other
+ * files are ignored.
+ *
+ * @param changed - Absolute paths of the changed files
+ * @param componentFiles - Files that match the component paths, relative to `cwd`
+ * @param compiledInputs - Files bundled in every compiled component file, by component file
+ */
+export function getAffectedFiles(
+  changed: Set<string>,
+  componentFiles: string[],
+  compiledInputs: Map<string, Set<string>>,
+  cwd: string
+): string[] {
+  return componentFiles.filter((file) => {
+    const inputs = compiledInputs.get(file);
+
+    if (!inputs) {
+      return true;
+    }
+
+    return (
+      changed.has(path.resolve(cwd, file)) ||
+      [...changed].some((p) => inputs.has(p))
+    );
+  });
+}
+
+/**
+ * Returns the keys of the content types and display templates that are
+ * added, removed or changed in `next` compared to `previous`.
+ * Property groups are not compared
+ */
+export function getChangedDefinitions(
+  previous: Manifest | undefined,
+  next: Manifest
+): string[] {
+  if (!previous) {
+    return [
+      ...next.contentTypes.map((ct) => ct.key),
+      ...next.displayTemplates.map((dt) => dt.key),
+    ];
+  }
+
+  return [
+    ...getChangedKeys(previous.contentTypes, next.contentTypes),
+    ...getChangedKeys(previous.displayTemplates, next.displayTemplates),
+  ];
+}
+
+/**
+ * Compiles the components of a configuration file and calls `onChange` with
+ * the manifest every time a component file or a file imported by them
+ * changes. Only the components that include the changed files are recompiled.
+ *
+ * Changes in the configuration file itself are not applied.
+ *
+ * Node.js cannot unload ES modules, so every recompiled component stays in
+ * memory until the process ends. Components are only imported again when
+ * their compiled code changes.
+ *
+ * @param configFile - Path of the configuration file, relative to the current directory
+ * @param onChange - Called with the manifest after the initial compilation and after every change
+ */
+export async function watchManifest(
+  configFile: string,
+  onChange: (manifest: Manifest) => void | Promise<void>,
+  options: WatchManifestOptions = {}
+): Promise<ManifestWatcher> {
+  const { componentPaths, propertyGroups, configPathDirectory } =
+    await readConfig(configFile);
+  const cwd = fileURLToPath(configPathDirectory);
+  const tmpDir = await mkdtemp(path.join(tmpdir(), 'optimizely-cli-'));
+  const files = new Map<string, CompiledFile>();
+  const ignored = (options.ignore ?? []).map((p) =>
+    path.resolve(process.cwd(), p)
+  );
+  let version = 0;
+
+  function isIgnored(absolutePath: string) {
+    return (
+      path
+        .relative(cwd, absolutePath)
+        .split(path.sep)
+        .some((segment) => IGNORED_DIRECTORIES.includes(segment)) ||
+      ignored.some(
+        (p) => absolutePath === p || absolutePath.startsWith(p + path.sep)
+      )
+    );
+  }
+
+  /** Compiles a file. Returns `false` if the compiled code did not change */
+  async function compile(file: string) {
+    let compiled = files.get(file);
+
+    if (!compiled) {
+      const outPath = path.join(tmpDir, `${file}.js`);
+      const context = await esbuild.context({
+        ...getCompileOptions(file, cwd, outPath),
+        metafile: true,
+      });
+      compiled = {
+        context,
+        outPath,
+        inputs: new Set(),
+        contentTypes: [],
+        displayTemplates: [],
+      };
+      files.set(file, compiled);
+    }
+
+    const result = await compiled.context.rebuild();
+    compiled.inputs = new Set(
+      Object.keys(result.metafile?.inputs ?? {}).map((p) =>
+        path.resolve(cwd, p)
+      )
+    );
+
+    // Every import stays in memory, so skip it if nothing changed
+    const code = await readFile(compiled.outPath, 'utf8');
+    if (code === compiled.code) {
+      return false;
+    }
+
+    const loaded = await importCompiled(compiled.outPath, ++version);
+    const { contentTypeData, displayTemplateData } = extractMetaData(loaded);
+
+    compiled.code = code;
+    compiled.contentTypes = contentTypeData;
+    compiled.displayTemplates = displayTemplateData;
+    return true;
+  }
+
+  /**
+   * Recompiles the files affected by the changes (all files if `changed`
+   * is not given) and calls `onChange` if any file was recompiled
+   */
+  async function update(changed?: Set<string>) {
+    const componentFiles = await findComponentFiles(
+      componentPaths,
+      configPathDirectory
+    );
+    let modified = !changed;
+
+    for (const [file, compiled] of files) {
+      if (!componentFiles.includes(file)) {
+        await compiled.context.dispose();
+        files.delete(file);
+        modified = true;
+      }
+    }
+
+    const affected = changed
+      ? getAffectedFiles(
+          changed,
+          componentFiles,
+          new Map([...files].map(([file, c]) => [file, c.inputs])),
+          cwd
+        )
+      : componentFiles;
+
+    for (const file of affected) {
+      if (await compile(file)) {
+        modified = true;
+      }
+    }
+
+    if (!modified) {
+      return;
+    }
+
+    const compiledFiles = componentFiles.flatMap((f) => files.get(f) ?? []);
+    await onChange(
+      createManifest(
+        compiledFiles.flatMap((f) => f.contentTypes),
+        compiledFiles.flatMap((f) => f.displayTemplates),
+        propertyGroups,
+        true
+      )
+    );
+  }
+
+  /** Runs the update, logging errors instead of stopping the watcher */
+  async function safeUpdate(changed?: Set<string>) {
+    try {
+      await update(changed);
+    } catch (err) {
+      console.error(chalk.red((err as Error).message));
+    }
+  }
+
+  await update();
+
+  let pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  const watcher = watch(cwd, { recursive: true }, (_, filename) => {
+    const changedPath = filename && path.resolve(cwd, filename);
+
+    if (!changedPath || isIgnored(changedPath)) {
+      return;
+    }
+
+    pending.add(changedPath);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const changed = pending;
+      pending = new Set();
+      running = running.then(() => safeUpdate(changed));
+    }, DEBOUNCE_MS);
+  });
+
+  return {
+    async close() {
+      watcher.close();
+      clearTimeout(timer);
+      await running;
+      await Promise.all([...files.values()].map((f) => f.context.dispose()));
+    },
+  };
+}
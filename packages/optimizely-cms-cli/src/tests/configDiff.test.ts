@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  diffConfig,
+  fetchRemoteConfig,
+  matchesRemote,
+  type RemoteConfig,
+} from '../service/configDiff.js';
+
+const emptyConfig = {
+  contentTypes: [],
+  displayTemplates: [],
+  propertyGroups: [],
+};
+
+// The generated schema types the property `type` with the discriminators
+// added by openapi-typescript instead of the values returned by the API
+const remoteArticle = {
+  key: 'Article',
+  displayName: 'Article',
+  baseType: 'page',
+  source: '',
+  created: '2025-01-01T00:00:00Z',
+  properties: {
+    title: { type: 'string', displayName: 'Title', localized: false },
+    views: { type: 'integer' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+} as unknown as RemoteConfig['contentTypes'][number];
+
+describe('matchesRemote', () => {
+  it('should ignore attributes that are only in the remote definition', () => {
+    expect(
+      matchesRemote({ type: 'string' }, { type: 'string', required: false })
+    ).toBe(true);
+    expect(matchesRemote({ type: 'string' }, { type: 'integer' })).toBe(false);
+  });
+
+  it('should compare arrays of primitives regardless of order', () => {
+    expect(matchesRemote(['a', 'b'], ['b', 'a'])).toBe(true);
+    expect(matchesRemote(['a', 'b'], ['a'])).toBe(false);
+  });
+});
+
+describe('diffConfig', () => {
+  it('should report no changes when the definitions match', () => {
+    const result = diffConfig(
+      {
+        ...emptyConfig,
+        contentTypes: [
+          {
+            key: 'Article',
+            displayName: 'Article',
+            baseType: '_page',
+            properties: {
+              title: { type: 'string', displayName: 'Title' },
+              views: { type: 'integer' },
+              tags: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        ],
+      },
+      { ...emptyConfig, contentTypes: [remoteArticle] }
+    );
+
+    expect(result).toEqual({
+      ...emptyConfig,
+      hasChanges: false,
+      hasDataLoss: false,
+    });
+  });
+
+  it('should report added, removed and changed properties', () => {
+    const result = diffConfig(
+      {
+        ...emptyConfig,
+        contentTypes: [
+          {
+            key: 'Article',
+            baseType: '_page',
+            properties: {
+              title: { type: 'string', displayName: 'Heading' },
+              tags: { type: 'array', items: { type: 'string' } },
+              summary: { type: 'string' },
+            },
+          },
+        ],
+      },
+      { ...emptyConfig, contentTypes: [remoteArticle] }
+    );
+
+    expect(result.contentTypes).toEqual([
+      {
+        key: 'Article',
+        status: 'changed',
+        changes: [],
+        dataLoss: true,
+        properties: [
+          {
+            key: 'title',
+            status: 'changed',
+            changes: [
+              { attribute: 'displayName', local: 'Heading', remote: 'Title' },
+            ],
+            dataLoss: false,
+          },
+          { key: 'summary', status: 'added', changes: [], dataLoss: false },
+          { key: 'views', status: 'removed', changes: [], dataLoss: true },
+        ],
+      },
+    ]);
+    expect(result.hasDataLoss).toBe(true);
+  });
+
+  it('should flag changes in the type of properties and items as data loss', () => {
+    const result = diffConfig(
+      {
+        ...emptyConfig,
+        contentTypes: [
+          {
+            key: 'Article',
+            properties: {
+              title: { type: 'string', displayName: 'Title' },
+              views: { type: 'string' },
+              tags: { type: 'array', items: { type: 'integer' } },
+            },
+          },
+        ],
+      },
+      { ...emptyConfig, contentTypes: [remoteArticle] }
+    );
+
+    const properties = result.contentTypes[0].properties;
+    expect(properties.map((p) => [p.key, p.dataLoss])).toEqual([
+      ['views', true],
+      ['tags', true],
+    ]);
+  });
+
+  it('should not flag content types that are only in the CMS as data loss', () => {
+    const result = diffConfig(emptyConfig, {
+      ...emptyConfig,
+      contentTypes: [
+        remoteArticle,
+        { key: 'SysPage', source: 'system', properties: {} },
+      ],
+    });
+
+    expect(result.contentTypes).toEqual([
+      {
+        key: 'Article',
+        status: 'removed',
+        changes: [],
+        properties: [],
+        dataLoss: false,
+      },
+    ]);
+    expect(result.hasChanges).toBe(true);
+    expect(result.hasDataLoss).toBe(false);
+  });
+
+  it('should compare display templates and property groups', () => {
+    const result = diffConfig(
+      {
+        ...emptyConfig,
+        displayTemplates: [
+          { key: 'Wide', displayName: 'Wide', baseType: '_component' } as any,
+        ],
+        propertyGroups: [{ key: 'seo', displayName: 'SEO', sortOrder: 1 }],
+      },
+      {
+        ...emptyConfig,
+        displayTemplates: [],
+        propertyGroups: [
+          { key: 'seo', displayName: 'Search', sortOrder: 1, source: '' },
+          { key: 'Information', source: 'system' },
+        ],
+      }
+    );
+
+    expect(result.displayTemplates).toEqual([
+      { key: 'Wide', status: 'added', changes: [] },
+    ]);
+    expect(result.propertyGroups).toEqual([
+      {
+        key: 'seo',
+        status: 'changed',
+        changes: [{ attribute: 'displayName', local: 'SEO', remote: 'Search' }],
+      },
+    ]);
+  });
+});
+
+describe('fetchRemoteConfig', () => {
+  it('should fetch all the pages of every endpoint', async () => {
+    const items = (n: number) => Array.from({ length: n }, (_, i) => ({ i }));
+    const counts: Record<string, number> = {
+      '/contenttypes': 150,
+      '/displaytemplates': 10,
+      '/propertygroups': 120,
+    };
+    const client = {
+      GET: vi.fn(async (endpoint: string, { params }: any) => {
+        const { pageIndex, pageSize } = params.query;
+        const all = items(counts[endpoint]);
+        return {
+          data: {
+            items: all.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize),
+            pageIndex,
+          },
+          response: new Response(),
+        };
+      }),
+    };
+
+    const config = await fetchRemoteConfig(client as any);
+
+    expect(config.contentTypes).toHaveLength(150);
+    expect(config.displayTemplates).toHaveLength(10);
+    expect(config.propertyGroups).toHaveLength(120);
+    expect(client.GET).toHaveBeenCalledTimes(5);
+  });
+});
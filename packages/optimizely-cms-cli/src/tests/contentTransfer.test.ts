@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findContentReferences,
+  importContent,
+  remapContentReferences,
+  selectVersions,
+} from '../service/contentTransfer.js';
+
+describe('findContentReferences', () => {
+  it('should find the keys of content URIs in nested values', () => {
+    expect(
+      findContentReferences({
+        image: 'cms://content/aaa',
+        blocks: [
+          { link: 'cms://content/bbb_en' },
+          { link: 'cms://content/aaa' },
+        ],
+        title: 'Not a reference',
+      })
+    ).toStrictEqual(['aaa', 'bbb']);
+  });
+});
+
+describe('remapContentReferences', () => {
+  it('should replace the keys and keep unknown keys', () => {
+    expect(
+      remapContentReferences(
+        {
+          image: 'cms://content/aaa',
+          blocks: [{ link: 'cms://content/bbb_en' }],
+          other: 'cms://content/ccc',
+          count: 3,
+        },
+        { aaa: 'xxx', bbb: 'yyy' }
+      )
+    ).toStrictEqual({
+      image: 'cms://content/xxx',
+      blocks: [{ link: 'cms://content/yyy_en' }],
+      other: 'cms://content/ccc',
+      count: 3,
+    });
+  });
+});
+
+describe('selectVersions', () => {
+  it('should prefer published versions and then the most recent ones', () => {
+    const versions = selectVersions([
+      { key: 'a', displayName: 'en 1', locale: 'en', status: 'published' },
+      {
+        key: 'a',
+        displayName: 'en 2',
+        locale: 'en',
+        status: 'draft',
+        lastModified: '2025-02-01T00:00:00Z',
+      },
+      {
+        key: 'a',
+        displayName: 'sv 1',
+        locale: 'sv',
+        status: 'draft',
+        lastModified: '2025-01-01T00:00:00Z',
+      },
+      {
+        key: 'a',
+        displayName: 'sv 2',
+        locale: 'sv',
+        status: 'draft',
+        lastModified: '2025-02-01T00:00:00Z',
+      },
+    ]);
+
+    expect(versions.map((v) => v.displayName)).toStrictEqual(['en 1', 'sv 2']);
+  });
+});
+
+describe('importContent', () => {
+  it('should create the items under the parent and remap the references', async () => {
+    let created = 0;
+    const client = {
+      POST: vi.fn(async (path: string) => ({
+        data:
+          path === '/content' ? { key: `new${++created}`, version: '1' } : {},
+        response: new Response(),
+      })),
+      PATCH: vi.fn(async () => ({ data: {}, response: new Response() })),
+    };
+
+    const result = await importContent(
+      client as any,
+      [
+        {
+          key: 'root',
+          contentType: 'Folder',
+          container: 'old-parent',
+          versions: [{ key: 'root', displayName: 'Root', locale: 'en' }],
+        },
+        {
+          key: 'page',
+          contentType: 'Article',
+          container: 'root',
+          versions: [
+            {
+              key: 'page',
+              displayName: 'Page',
+              locale: 'en',
+              status: 'published',
+              properties: { image: 'cms://content/media' },
+            },
+            {
+              key: 'page',
+              displayName: 'Sida',
+              locale: 'sv',
+              properties: { related: 'cms://content/root' },
+            },
+          ],
+        },
+      ],
+      'root',
+      'new-parent'
+    );
+
+    expect(result).toStrictEqual({
+      keys: { root: 'new1', page: 'new2' },
+      unresolvedReferences: ['media'],
+    });
+
+    const [, rootBody] = client.POST.mock.calls[0] as any[];
+    const [, pageBody] = client.POST.mock.calls[1] as any[];
+    expect(rootBody.body.container).toBe('new-parent');
+    expect(pageBody.body.container).toBe('new1');
+
+    // The first locale updates the created draft, the others are new versions
+    const [, patch] = client.PATCH.mock.calls[1] as any[];
+    expect(patch.params.path).toStrictEqual({ key: 'new2', version: '1' });
+    expect(patch.body.status).toBe('published');
+
+    const [path, version] = client.POST.mock.calls[2] as any[];
+    expect(path).toBe('/content/{key}/versions');
+    expect(version.body.properties).toStrictEqual({
+      related: 'cms://content/new1',
+    });
+  });
+});
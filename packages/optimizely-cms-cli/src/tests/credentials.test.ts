@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import {
+  normalizeHost,
+  readCredentials,
+  resolveCredentials,
+  saveProfile,
+} from '../service/config.js';
+
+const settings = {
+  cms: {
+    staging: {
+      clientId: 'staging-id',
+      clientSecret: 'staging-secret',
+      host: 'https://staging.cms.optimizely.com/',
+    },
+    prod: {
+      clientId: 'prod-id',
+      clientSecret: 'prod-secret',
+      host: 'prod.cms.optimizely.com',
+      apiUrl: 'https://api.example.com',
+    },
+  },
+  currentProfile: 'prod',
+};
+
+const env = { clientId: 'env-id', clientSecret: 'env-secret' };
+
+describe('normalizeHost', () => {
+  it('should remove the protocol and trailing slashes', () => {
+    expect(normalizeHost('https://Example.cms.optimizely.com/')).toBe(
+      'example.cms.optimizely.com'
+    );
+    expect(normalizeHost('example.cms.optimizely.com')).toBe(
+      'example.cms.optimizely.com'
+    );
+  });
+});
+
+describe('resolveCredentials', () => {
+  it('should use the profile passed with --profile', () => {
+    expect(
+      resolveCredentials(settings, env, { profile: 'staging' })
+    ).toMatchObject({
+      credentials: { clientId: 'staging-id' },
+      source: 'profile "staging"',
+    });
+  });
+
+  it('should use the profile with the host passed with --host', () => {
+    expect(
+      resolveCredentials(settings, env, {
+        host: 'staging.cms.optimizely.com',
+      }).credentials
+    ).toMatchObject({ clientId: 'staging-id' });
+  });
+
+  it('should prefer the environment variables over the current profile', () => {
+    expect(resolveCredentials(settings, env)).toStrictEqual({
+      credentials: env,
+      source: 'the environment variables',
+    });
+  });
+
+  it('should use the current profile without environment variables', () => {
+    expect(resolveCredentials(settings, undefined)).toStrictEqual({
+      credentials: settings.cms.prod,
+      source: 'profile "prod"',
+    });
+  });
+
+  it('should use the environment variables if no profile has the host', () => {
+    expect(
+      resolveCredentials(settings, env, { host: 'test.example.com' })
+        .credentials
+    ).toStrictEqual(env);
+  });
+
+  it('should throw if the profile or host do not exist', () => {
+    expect(() =>
+      resolveCredentials(settings, env, { profile: 'test' })
+    ).toThrow('The profile "test" does not exist');
+    expect(() =>
+      resolveCredentials(settings, undefined, { host: 'test.example.com' })
+    ).toThrow('There is no profile for the host "test.example.com"');
+  });
+
+  it('should throw if there are no credentials', () => {
+    expect(() => resolveCredentials({ cms: {} }, undefined)).toThrow(
+      'Credentials not provided'
+    );
+  });
+});
+
+describe('readCredentials', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should warn when the environment variables are ignored', async () => {
+    const configDir = await mkdtemp(path.join(tmpdir(), 'optimizely-test-'));
+    vi.stubEnv('XDG_CONFIG_HOME', configDir);
+    vi.stubEnv('OPTIMIZELY_CMS_CLIENT_ID', 'env-id');
+    vi.stubEnv('OPTIMIZELY_CMS_CLIENT_SECRET', 'env-secret');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      saveProfile('prod', { clientId: 'prod-id', clientSecret: 'prod-secret' });
+
+      expect(readCredentials()).toMatchObject({ clientId: 'env-id' });
+      expect(warn).not.toHaveBeenCalled();
+
+      expect(readCredentials({ profile: 'prod' })).toMatchObject({
+        clientId: 'prod-id',
+      });
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('profile "prod" instead of the environment')
+      );
+    } finally {
+      await rm(configDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createWebhookInput,
+  createWebhooksClient,
+} from '../service/graphWebhooks.js';
+
+describe('createWebhookInput', () => {
+  it('should subscribe to all events by default', () => {
+    expect(
+      createWebhookInput({ url: 'https://example.com', status: 'Published' })
+    ).toStrictEqual({
+      disabled: false,
+      request: { url: 'https://example.com', method: 'post' },
+      topic: ['*.*'],
+      filters: { status: { eq: 'Published' } },
+    });
+  });
+
+  it('should subscribe only to the given events', () => {
+    const input = createWebhookInput({
+      url: 'https://example.com',
+      events: ['doc', 'bulk'],
+    });
+
+    expect(input.topic).toStrictEqual(['doc.*', 'bulk.*']);
+    expect(input.filters).toStrictEqual({});
+  });
+});
+
+describe('createWebhooksClient', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubEnv('OPTIMIZELY_GRAPH_APP_KEY', 'app-key');
+    vi.stubEnv('OPTIMIZELY_GRAPH_SECRET', 'secret');
+    vi.stubEnv('OPTIMIZELY_GRAPH_API_URL', 'https://graph.example.com/api/');
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it('should throw if the credentials are missing', () => {
+    vi.stubEnv('OPTIMIZELY_GRAPH_APP_KEY', '');
+    expect(() => createWebhooksClient()).toThrow('OPTIMIZELY_GRAPH_APP_KEY');
+  });
+
+  it('should send requests with basic authentication', async () => {
+    fetchMock.mockResolvedValue(new Response('[]'));
+
+    expect(await createWebhooksClient().list()).toStrictEqual([]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://graph.example.com/api/webhooks');
+    expect(init.headers.authorization).toBe(
+      'Basic ' + Buffer.from('app-key:secret').toString('base64')
+    );
+  });
+
+  it('should delete webhooks by ID', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+
+    await createWebhooksClient().delete('abc');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://graph.example.com/api/webhooks/abc');
+    expect(init.method).toBe('DELETE');
+  });
+
+  it('should throw if the webhook does not exist', async () => {
+    fetchMock.mockResolvedValue(new Response('[]'));
+
+    await expect(createWebhooksClient().get('abc')).rejects.toThrow(
+      'The webhook "abc" does not exist'
+    );
+  });
+
+  it('should throw if the API responds with an error', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('Forbidden', { status: 403, statusText: 'Forbidden' })
+    );
+
+    await expect(createWebhooksClient().list()).rejects.toThrow(
+      'The Graph API responded with 403 Forbidden'
+    );
+  });
+});
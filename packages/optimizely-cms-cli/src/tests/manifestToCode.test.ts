@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { mapManifestToCode } from '../mapper/manifestToCode.js';
+
+/**
+ * The generated schema types the property `type` with the discriminators
+ * added by openapi-typescript instead of the values returned by the API
+ */
+function manifest(value: object) {
+  return value as Parameters<typeof mapManifestToCode>[0];
+}
+
+function findFile(files: { path: string; content: string }[], path: string) {
+  return files.find((f) => f.path === path)?.content;
+}
+
+describe('mapManifestToCode', () => {
+  it('should generate a file for each content type with imports for the referenced types', () => {
+    const files = mapManifestToCode(
+      manifest({
+        contentTypes: [
+          {
+            key: 'Hero',
+            displayName: 'Hero',
+            baseType: 'component',
+            source: '',
+            properties: {
+              heading: { type: 'string', format: null, editorSettings: {} },
+            },
+          },
+          {
+            key: 'Article',
+            displayName: "Writer's article",
+            baseType: '_page',
+            mayContainTypes: ['Article', '*'],
+            properties: {
+              hero: { type: 'component', contentType: 'Hero' },
+              link: { type: 'component', contentType: 'link' },
+              blocks: {
+                type: 'array',
+                items: { type: 'content', allowedTypes: ['Hero', '_image'] },
+              },
+            },
+          },
+        ],
+      })
+    );
+
+    expect(findFile(files, 'ArticleContentType.ts')).toBe(
+      `import { contentType } from '@optimizely/cms-sdk';
+import { HeroContentType } from './HeroContentType';
+
+export const ArticleContentType = contentType({
+  key: 'Article',
+  displayName: 'Writer\\'s article',
+  baseType: '_page',
+  mayContainTypes: ['_self', '*'],
+  properties: {
+    hero: {
+      type: 'component',
+      contentType: HeroContentType,
+    },
+    link: {
+      type: 'link',
+    },
+    blocks: {
+      type: 'array',
+      items: {
+        type: 'content',
+        allowedTypes: [HeroContentType, '_image'],
+      },
+    },
+  },
+});
+`
+    );
+    expect(findFile(files, 'HeroContentType.ts')).toBe(
+      `import { contentType } from '@optimizely/cms-sdk';
+
+export const HeroContentType = contentType({
+  key: 'Hero',
+  displayName: 'Hero',
+  baseType: '_component',
+  properties: {
+    heading: {
+      type: 'string',
+    },
+  },
+});
+`
+    );
+  });
+
+  it('should use keys instead of imports for circular references', () => {
+    const files = mapManifestToCode(
+      manifest({
+        contentTypes: [
+          {
+            key: 'A',
+            baseType: '_page',
+            mayContainTypes: ['B'],
+          },
+          {
+            key: 'B',
+            baseType: '_page',
+            mayContainTypes: ['A'],
+          },
+        ],
+      })
+    );
+
+    expect(findFile(files, 'AContentType.ts')).toContain(
+      "import { BContentType } from './BContentType';"
+    );
+    expect(findFile(files, 'AContentType.ts')).toContain(
+      'mayContainTypes: [BContentType]'
+    );
+    expect(findFile(files, 'BContentType.ts')).not.toContain('import { A');
+    expect(findFile(files, 'BContentType.ts')).toContain(
+      "mayContainTypes: ['A']"
+    );
+  });
+
+  it('should generate display templates and a configuration file with the property groups', () => {
+    const files = mapManifestToCode(
+      manifest({
+        displayTemplates: [
+          {
+            key: 'Wide',
+            displayName: 'Wide',
+            nodeType: 'row',
+            created: '2025-01-01T00:00:00Z',
+          },
+        ],
+        propertyGroups: [
+          { key: 'seo', displayName: 'SEO', sortOrder: 1, source: '' },
+        ],
+      })
+    );
+
+    expect(findFile(files, 'WideDisplayTemplate.ts')).toBe(
+      `import { displayTemplate } from '@optimizely/cms-sdk';
+
+export const WideDisplayTemplate = displayTemplate({
+  key: 'Wide',
+  displayName: 'Wide',
+  nodeType: 'row',
+  isDefault: false,
+  settings: {},
+});
+`
+    );
+    expect(findFile(files, 'optimizely.config.mjs')).toBe(
+      `import { buildConfig } from '@optimizely/cms-sdk';
+
+export default buildConfig({
+  components: ['./*.ts'],
+  propertyGroups: [
+    {
+      key: 'seo',
+      displayName: 'SEO',
+      sortOrder: 1,
+    },
+  ],
+});
+`
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parsePersistedQueriesOptions } from '../service/persistedQueries.js';
+
+describe('parsePersistedQueriesOptions', () => {
+  it('should group the selections by content type', () => {
+    expect(
+      parsePersistedQueriesOptions(
+        ['Article:title,image', 'Article:title', 'Hero: heading '],
+        ['types', 'types,locale']
+      )
+    ).toStrictEqual({
+      select: {
+        Article: [['title', 'image'], ['title']],
+        Hero: [['heading']],
+      },
+      searchFacets: [['types'], ['types', 'locale']],
+    });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parsePersistedQueriesOptions(['Article'])).toThrow(
+      'Invalid --select "Article"'
+    );
+    expect(() => parsePersistedQueriesOptions([':title'])).toThrow(
+      'Invalid --select'
+    );
+    expect(() => parsePersistedQueriesOptions([], ['types,name'])).toThrow(
+      'Invalid --facets "types,name"'
+    );
+  });
+});
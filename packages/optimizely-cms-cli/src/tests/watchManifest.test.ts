@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAffectedFiles,
+  getChangedDefinitions,
+} from '../service/watchManifest.js';
+import { Manifest } from '../service/manifest.js';
+
+function manifest(contentTypes: any[], displayTemplates: any[] = []): Manifest {
+  return { contentTypes, displayTemplates, propertyGroups: [] };
+}
+
+describe('getChangedDefinitions', () => {
+  it('should return all definitions if nothing was pushed before', () => {
+    const next = manifest(
+      [{ key: 'Article', baseType: '_page' }],
+      [{ key: 'Wide', nodeType: 'row' }]
+    );
+
+    expect(getChangedDefinitions(undefined, next)).toEqual(['Article', 'Wide']);
+  });
+
+  it('should return nothing if the definitions are the same', () => {
+    const previous = manifest([{ key: 'Article', baseType: '_page' }]);
+    const next = manifest([{ key: 'Article', baseType: '_page' }]);
+
+    expect(getChangedDefinitions(previous, next)).toEqual([]);
+  });
+
+  it('should return added, changed and removed definitions', () => {
+    const previous = manifest(
+      [
+        { key: 'Article', baseType: '_page' },
+        { key: 'Hero', baseType: '_component' },
+        { key: 'Old', baseType: '_page' },
+      ],
+      [{ key: 'Wide', nodeType: 'row' }]
+    );
+    const next = manifest(
+      [
+        { key: 'Article', baseType: '_page' },
+        {
+          key: 'Hero',
+          baseType: '_component',
+          properties: { heading: { type: 'string' } },
+        },
+        { key: 'New', baseType: '_page' },
+      ],
+      [{ key: 'Wide', nodeType: 'section' }]
+    );
+
+    expect(getChangedDefinitions(previous, next)).toEqual([
+      'Hero',
+      'New',
+      'Old',
+      'Wide',
+    ]);
+  });
+
+  it('should ignore changes in property groups', () => {
+    const previous = manifest([{ key: 'Article', baseType: '_page' }]);
+    const next: Manifest = {
+      ...previous,
+      propertyGroups: [{ key: 'seo', displayName: 'SEO', sortOrder: 1 }],
+    };
+
+    expect(getChangedDefinitions(previous, next)).toEqual([]);
+  });
+});
+
+describe('getAffectedFiles', () => {
+  const cwd = '/project';
+  const inputs = new Map([
+    ['./a.ts', new Set(['/project/a.ts', '/project/shared.ts'])],
+    ['./b.ts', new Set(['/project/b.ts'])],
+  ]);
+
+  it('should return the files that import a changed file', () => {
+    expect(
+      getAffectedFiles(
+        new Set(['/project/shared.ts']),
+        ['./a.ts', './b.ts'],
+        inputs,
+        cwd
+      )
+    ).toEqual(['./a.ts']);
+  });
+
+  it('should return the new component files', () => {
+    expect(
+      getAffectedFiles(
+        new Set(['/project/c.ts']),
+        ['./a.ts', './b.ts', './c.ts'],
+        inputs,
+        cwd
+      )
+    ).toEqual(['./c.ts']);
+  });
+
+  it('should ignore files that are not components or imported by them', () => {
+    expect(
+      getAffectedFiles(
+        new Set(['/project/dist/manifest.json', '/project/README.md']),
+        ['./a.ts', './b.ts'],
+        inputs,
+        cwd
+      )
+    ).toEqual([]);
+  });
+});
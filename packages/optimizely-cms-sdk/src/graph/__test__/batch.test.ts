@@ -0,0 +1,180 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { mergeRequests, parseDocument, splitResponse } from '../batch.js';
+
+const query1 = `
+fragment A on A { __typename a }
+query GetA($where: _ContentWhereInput, $locale: [Locales]) {
+  _Content(where: $where, locale: $locale) {
+    items { ...A }
+  }
+  # A comment
+  damAssetType: __type(name: "cmp_Asset") {
+    __typename
+  }
+}`;
+
+const query2 = `
+fragment A on A { __typename a }
+fragment B on B { __typename b }
+query GetB($where: _ContentWhereInput) {
+  _Content(where: $where) {
+    item { ...A ...B }
+  }
+}`;
+
+describe('parseDocument()', () => {
+  test('parses fragments and variables', () => {
+    const parsed = parseDocument(query1);
+
+    expect([...parsed!.fragments.keys()]).toStrictEqual(['A']);
+    expect(parsed!.variableDefinitions).toStrictEqual([
+      { name: 'where', type: '_ContentWhereInput' },
+      { name: 'locale', type: '[Locales]' },
+    ]);
+  });
+
+  test('returns null for documents that cannot be batched', () => {
+    expect(parseDocument('mutation { a }')).toBeNull();
+    expect(parseDocument('query A { a } query B { b }')).toBeNull();
+  });
+});
+
+describe('mergeRequests()', () => {
+  test('prefixes root fields and variables', () => {
+    const merged = mergeRequests([
+      { query: query1, variables: { where: 1, locale: ['en'] } },
+      { query: query2, variables: { where: 2 } },
+    ]);
+
+    expect(merged!.variables).toStrictEqual({
+      b0_where: 1,
+      b0_locale: ['en'],
+      b1_where: 2,
+    });
+    expect(merged!.query).toContain(
+      'query Batch($b0_where: _ContentWhereInput, $b0_locale: [Locales], $b1_where: _ContentWhereInput)',
+    );
+    expect(merged!.query).toContain(
+      'b0__Content: _Content(where: $b0_where, locale: $b0_locale)',
+    );
+    expect(merged!.query).toContain(
+      'b0_damAssetType: __type(name: "cmp_Asset")',
+    );
+    expect(merged!.query).toContain('b1__Content: _Content(where: $b1_where)');
+    expect(merged!.query.match(/fragment A on A/g)).toHaveLength(1);
+    expect(merged!.query).toContain('fragment B on B');
+  });
+
+  test('keeps "#" and "$" inside strings', () => {
+    const query = `
+query Search($where: _ContentWhereInput) {
+  _Content(where: $where) {
+    items {
+      _fulltext(highlight: { enabled: true, startToken: "#1 {$", endToken: """$5 ) # \\""" still """ })
+    }
+  }
+}`;
+    const merged = mergeRequests([
+      { query, variables: { where: 1 } },
+      { query, variables: { where: 2 } },
+    ]);
+
+    expect(merged!.query).toContain(
+      'startToken: "#1 {$", endToken: """$5 ) # \\""" still """',
+    );
+    expect(merged!.query).toContain('b1__Content: _Content(where: $b1_where)');
+    expect(parseDocument(query)!.selections).toContain('"#1 {$"');
+  });
+
+  test('returns null when fragments with the same name are different', () => {
+    expect(
+      mergeRequests([
+        { query: 'fragment A on A { a } query { x { ...A } }', variables: {} },
+        { query: 'fragment A on A { b } query { x { ...A } }', variables: {} },
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe('splitResponse()', () => {
+  test('removes the prefixes', () => {
+    expect(
+      splitResponse({ b0__Content: 1, b0_damAssetType: 2, b1__Content: 3 }, 2),
+    ).toStrictEqual([{ _Content: 1, damAssetType: 2 }, { _Content: 3 }]);
+  });
+
+  test('removes the type prefixes of the fields', () => {
+    expect(
+      splitResponse(
+        { b0__Content: { item: { __typename: 'A', A__title: 'x' } } },
+        1,
+      ),
+    ).toStrictEqual([{ _Content: { item: { __typename: 'A', title: 'x' } } }]);
+  });
+});
+
+describe('GraphClient with batching', () => {
+  test('combines requests issued in the same tick', async () => {
+    const fetch = vi.fn(async (_url: URL | RequestInfo, init?: RequestInit) => {
+      const { variables } = JSON.parse(init!.body as string);
+      return new Response(
+        JSON.stringify({
+          data: {
+            b0__Content: { item: variables.b0_where },
+            b1__Content: { item: variables.b1_where },
+          },
+        }),
+      );
+    });
+    const client = new GraphClient('key', { fetch, batch: true });
+
+    const [a, b] = await Promise.all([
+      client.request(query2, { where: 'a' }),
+      client.request(query2, { where: 'b' }),
+    ]);
+
+    expect(a).toStrictEqual({ _Content: { item: 'a' } });
+    expect(b).toStrictEqual({ _Content: { item: 'b' } });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('sends the requests separately if the batch has GraphQL errors', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ errors: [{ message: 'Cannot query field' }] }),
+          { status: 400 },
+        ),
+      )
+      .mockImplementation(
+        async () => new Response(JSON.stringify({ data: { ok: true } })),
+      );
+    const client = new GraphClient('key', { fetch, batch: true });
+
+    const results = await Promise.all([
+      client.request(query2, { where: 'a' }),
+      client.request(query2, { where: 'b' }),
+    ]);
+
+    expect(results).toStrictEqual([{ ok: true }, { ok: true }]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('rejects all the requests if the batch fails for other reasons', async () => {
+    const fetch = vi.fn(async () => new Response('Error', { status: 400 }));
+    const client = new GraphClient('key', { fetch, batch: true });
+
+    const results = await Promise.allSettled([
+      client.request(query2, { where: 'a' }),
+      client.request(query2, { where: 'b' }),
+    ]);
+
+    expect(results.map((r) => r.status)).toStrictEqual([
+      'rejected',
+      'rejected',
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { GraphClient } from '../index.js';
+import { MemoryCache } from '../cache.js';
+import { FileSystemCache } from '../fileSystemCache.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** A `fetch` that returns `{ count }` with the number of calls */
+function countingFetch() {
+  let count = 0;
+  return vi.fn(async () => {
+    count++;
+    return new Response(JSON.stringify({ data: { count } }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+}
+
+describe('MemoryCache', () => {
+  test('removes the least recently used entries', () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    const entry = { data: 1, expires: 0, staleUntil: 0 };
+    cache.set('a', entry);
+    cache.set('b', entry);
+    cache.get('a');
+    cache.set('c', entry);
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+});
+
+describe('FileSystemCache', () => {
+  test('stores entries in files', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'graph-cache-'));
+    const cache = new FileSystemCache({ directory });
+    const entry = { data: { a: 1 }, expires: 1, staleUntil: 2 };
+
+    await cache.set('abc', entry);
+    expect(await cache.get('abc')).toStrictEqual(entry);
+
+    await cache.delete('abc');
+    expect(await cache.get('abc')).toBeUndefined();
+
+    await rm(directory, { recursive: true });
+  });
+});
+
+describe('GraphClient with cache', () => {
+  test('returns cached responses until they expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const fetch = countingFetch();
+    const client = new GraphClient('key', { fetch, cache: { ttl: 1000 } });
+
+    expect(await client.request('query { a }', {})).toStrictEqual({
+      count: 1,
+    });
+    expect(await client.request('query { a }', {})).toStrictEqual({
+      count: 1,
+    });
+    expect(await client.request('query { b }', {})).toStrictEqual({
+      count: 2,
+    });
+
+    vi.advanceTimersByTime(1001);
+    expect(await client.request('query { a }', {})).toStrictEqual({
+      count: 3,
+    });
+  });
+
+  test('returns stale responses while revalidating', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const fetch = countingFetch();
+    const client = new GraphClient('key', {
+      fetch,
+      cache: { ttl: 1000, staleWhileRevalidate: 1000 },
+    });
+
+    await client.request('query { a }', {});
+    vi.advanceTimersByTime(1500);
+
+    // Stale response. A new one is fetched in the background
+    expect(await client.request('query { a }', {})).toStrictEqual({
+      count: 1,
+    });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () =>
+      expect(await client.request('query { a }', {})).toStrictEqual({
+        count: 2,
+      }),
+    );
+  });
+
+  test('skips the cache for preview requests', async () => {
+    const fetch = countingFetch();
+    const client = new GraphClient('key', { fetch, cache: true });
+
+    await client.request('query { a }', {}, 'preview-token');
+    await client.request('query { a }', {}, 'preview-token');
+    await client.request('query { a }', {}, undefined, { cache: false });
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not share entries between clients of different instances', async () => {
+    const fetch = countingFetch();
+    const adapter = new MemoryCache();
+    const client1 = new GraphClient('key1', { fetch, cache: { adapter } });
+    const client2 = new GraphClient('key2', { fetch, cache: { adapter } });
+    const client3 = new GraphClient('key1', {
+      fetch,
+      cache: { adapter },
+      graphUrl: 'https://example.com/content/v2',
+    });
+
+    expect(await client1.request('query { a }', {})).toStrictEqual({
+      count: 1,
+    });
+    expect(await client2.request('query { a }', {})).toStrictEqual({
+      count: 2,
+    });
+    expect(await client3.request('query { a }', {})).toStrictEqual({
+      count: 3,
+    });
+    expect(await client1.request('query { a }', {})).toStrictEqual({
+      count: 1,
+    });
+  });
+});
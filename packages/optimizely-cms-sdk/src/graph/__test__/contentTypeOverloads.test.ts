@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, expectTypeOf, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+import type { ContentResult, InferredContent } from '../../infer.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: {
+    title: { type: 'string' },
+  },
+});
+
+const Landing = contentType({
+  key: 'Landing',
+  baseType: '_experience',
+  properties: {
+    heading: { type: 'string' },
+  },
+});
+
+const previewParams = {
+  preview_token: 'token',
+  key: 'abc',
+  ctx: 'edit',
+  ver: '1',
+  loc: 'en',
+};
+
+describe('content type overloads', () => {
+  beforeAll(() => {
+    initContentTypeRegistry([Article, Landing]);
+  });
+
+  test('`__typename` narrows a union of content types', () => {
+    type Content = InferredContent<typeof Article | typeof Landing>;
+
+    expectTypeOf<Content['__typename']>().toEqualTypeOf<
+      'Article' | 'Landing'
+    >();
+
+    const check = (content: Content) => {
+      switch (content.__typename) {
+        case 'Article':
+          expectTypeOf(content).toHaveProperty('title');
+          expectTypeOf(content).not.toHaveProperty('heading');
+          break;
+        case 'Landing':
+          expectTypeOf(content).toHaveProperty('heading');
+          expectTypeOf(content).toHaveProperty('composition');
+          break;
+      }
+    };
+    expect(check).toBeDefined();
+  });
+
+  test('`ContentResult` keeps `any` and custom types', () => {
+    expectTypeOf<ContentResult<any>>().toBeAny();
+    expectTypeOf<ContentResult<{ foo: string }>>().toEqualTypeOf<{
+      foo: string;
+    }>();
+    expectTypeOf<ContentResult<typeof Article>>().toEqualTypeOf<
+      InferredContent<typeof Article>
+    >();
+  });
+
+  test('getContentByPath() skips the metadata request when `contentType` is given', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        items: [{ __typename: 'Article', Article__title: 'Hello' }],
+      },
+    });
+
+    const items = await client.getContentByPath('/en/', {
+      contentType: [Article, Landing],
+    });
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][0]).toContain('...Article ...Landing');
+    expect(items).toStrictEqual([{ __typename: 'Article', title: 'Hello' }]);
+    expectTypeOf(items[0].__typename).toEqualTypeOf<'Article' | 'Landing'>();
+  });
+
+  test('getContentByPath() returns typed content with a type argument', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request').mockResolvedValueOnce({
+      _Content: { item: { _metadata: { types: ['Article'] } } },
+    });
+    vi.spyOn(client, 'request').mockResolvedValueOnce({
+      _Content: { items: [] },
+    });
+
+    const items = await client.getContentByPath<typeof Article>('/en/');
+
+    type Item = (typeof items)[number];
+    expectTypeOf<Item>().toExtend<InferredContent<typeof Article>>();
+    expectTypeOf<Item['_metadata']['variation']>().toEqualTypeOf<string>();
+  });
+
+  test('getPreviewContent() accepts `contentType`', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: { item: { __typename: 'Landing', Landing__heading: 'Hi' } },
+    });
+
+    const content = await client.getPreviewContent(previewParams, {
+      contentType: Landing,
+    });
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(content.heading).toBe('Hi');
+    expectTypeOf(content.__typename).toEqualTypeOf<'Landing'>();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: { title: { type: 'string' } },
+});
+
+const Teaser = contentType({
+  key: 'Teaser',
+  baseType: '_component',
+  properties: { text: { type: 'string' } },
+});
+
+/** Creates a client with content "a1", "a2" (Article) and "t1" (Teaser) */
+function mockClient() {
+  initContentTypeRegistry([Article, Teaser]);
+  const client = new GraphClient('key');
+  const content = [
+    { key: 'a1', type: 'Article' },
+    { key: 't1', type: 'Teaser' },
+    { key: 'a2', type: 'Article' },
+  ];
+
+  vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+  const request = vi
+    .spyOn(client, 'request')
+    .mockImplementation(async (query, variables) => {
+      const keys: string[] = variables.where._metadata.key.in;
+      const found = content.filter((c) => keys.includes(c.key));
+
+      if (query.includes('GetContentTypes')) {
+        return {
+          _Content: {
+            items: found.map((c) => ({
+              _metadata: { key: c.key, types: [c.type] },
+            })),
+          },
+        };
+      }
+
+      return {
+        _Content: {
+          items: found.map((c) => ({
+            __typename: c.type,
+            _metadata: { key: c.key },
+          })),
+        },
+      };
+    });
+
+  return { client, request };
+}
+
+describe('GraphClient.getContentByKeys()', () => {
+  test('runs one query per content type and keeps the order of the keys', async () => {
+    const { client, request } = mockClient();
+    const items = await client.getContentByKeys(['t1', 'a2', 'missing', 'a1']);
+
+    expect(items.map((i) => i._metadata.key)).toStrictEqual(['t1', 'a2', 'a1']);
+    // One query to get the content types + one per content type
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  test('filters by status, version and locale', async () => {
+    const { client, request } = mockClient();
+    await client.getContentByKeys(['a1'], {
+      locale: 'en',
+      version: '3',
+      status: 'Draft',
+    });
+
+    expect(request.mock.calls[0][1]).toStrictEqual({
+      where: {
+        _metadata: {
+          key: { in: ['a1'] },
+          version: { eq: '3' },
+          status: { eq: 'Draft' },
+        },
+      },
+      locale: ['en'],
+      limit: 100,
+      cursor: '',
+    });
+  });
+
+  test('sends the keys in batches of 100 and fetches every page', async () => {
+    initContentTypeRegistry([Article]);
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+
+    // Every key exists in two locales
+    const keys = Array.from({ length: 150 }, (_, i) => `k${i}`);
+    const content = keys.flatMap((key) =>
+      ['en', 'sv'].map((locale) => ({ key, locale })),
+    );
+
+    const request = vi
+      .spyOn(client, 'request')
+      .mockImplementation(async (query, variables) => {
+        const batch: string[] = variables.where._metadata.key.in;
+        const found = content.filter((c) => batch.includes(c.key));
+        const start = Number(variables.cursor || 0);
+        const page = found.slice(start, start + variables.limit);
+        const next = start + variables.limit;
+
+        return {
+          _Content: {
+            items: page.map((c) => ({
+              __typename: 'Article',
+              _metadata: { key: c.key, locale: c.locale, types: ['Article'] },
+            })),
+            cursor: next < found.length ? String(next) : null,
+          },
+        };
+      });
+
+    const items = await client.getContentByKeys(keys);
+
+    expect(items).toHaveLength(300);
+    expect(items[0]._metadata.key).toBe('k0');
+    expect(items[299]._metadata.key).toBe('k149');
+
+    for (const [, variables] of request.mock.calls) {
+      expect(variables.where._metadata.key.in.length).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe('GraphClient.getContentByKey()', () => {
+  test('returns null when the content does not exist', async () => {
+    const { client } = mockClient();
+
+    expect(await client.getContentByKey('missing')).toBeNull();
+    expect(await client.getContentByKey('a1')).toMatchObject({
+      __typename: 'Article',
+    });
+  });
+
+  test('returns the locale that was published first', async () => {
+    initContentTypeRegistry([Article]);
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        items: [
+          {
+            __typename: 'Article',
+            _metadata: {
+              key: 'a1',
+              locale: 'sv',
+              types: ['Article'],
+              published: '2025-03-01T00:00:00Z',
+            },
+          },
+          {
+            __typename: 'Article',
+            _metadata: {
+              key: 'a1',
+              locale: 'en',
+              types: ['Article'],
+              published: '2025-01-01T00:00:00Z',
+            },
+          },
+        ],
+      },
+    });
+
+    expect(await client.getContentByKey('a1')).toMatchObject({
+      _metadata: { locale: 'en' },
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { GraphHttpResponseError } from '../error.js';
+
+function jsonResponse(body: any, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('GraphClient fetch option and hooks', () => {
+  test('uses the given `fetch`', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ data: { ok: true } }));
+    const client = new GraphClient('key', { fetch });
+
+    expect(await client.request('query { ok }', {})).toStrictEqual({
+      ok: true,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('`onRequest` can modify the request', async () => {
+    const fetch = vi.fn(async (_url: URL | RequestInfo, _init?: RequestInit) =>
+      jsonResponse({ data: {} }),
+    );
+    const client = new GraphClient('key', {
+      fetch,
+      onRequest(context) {
+        context.init.headers = {
+          ...(context.init.headers as Record<string, string>),
+          traceparent: 'trace-id',
+        };
+        context.init.next = { revalidate: 60, tags: ['graph'] };
+      },
+    });
+
+    await client.request('query { ok }', {});
+    const init = fetch.mock.calls[0][1] as any;
+
+    expect(init.headers.traceparent).toBe('trace-id');
+    expect(init.next).toStrictEqual({ revalidate: 60, tags: ['graph'] });
+  });
+
+  test('`onResponse` can replace the response', async () => {
+    const client = new GraphClient('key', {
+      fetch: async () => jsonResponse({ data: { original: true } }),
+      onResponse: () => jsonResponse({ data: { replaced: true } }),
+    });
+
+    expect(await client.request('query { ok }', {})).toStrictEqual({
+      replaced: true,
+    });
+  });
+
+  test('`onError` is called before throwing', async () => {
+    const onError = vi.fn();
+    const client = new GraphClient('key', {
+      fetch: async () => new Response('Unauthorized', { status: 401 }),
+      onError,
+    });
+
+    await expect(client.request('query { ok }', {})).rejects.toThrow(
+      GraphHttpResponseError,
+    );
+    expect(onError).toHaveBeenCalledWith(expect.any(GraphHttpResponseError), {
+      query: 'query { ok }',
+      variables: {},
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { removeTypePrefix } from '../index.js';
+import { removeTypePrefix } from '../removeTypePrefix.js';
 
 describe('removeTypePrefix()', () => {
   test('basic functionality', () => {
@@ -0,0 +1,126 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: { title: { type: 'string' } },
+});
+
+type Item = { locale: string; fallbackForLocale?: string };
+
+/** Creates a client whose content queries return the given items */
+function mockClient(items: Item[]) {
+  initContentTypeRegistry([Article]);
+  const client = new GraphClient('key');
+  const request = vi
+    .spyOn(client, 'request')
+    .mockImplementation(async (query) => {
+      if (query.includes('GetContentMetadata')) {
+        return {
+          _Content: {
+            item:
+              items.length > 0 ? { _metadata: { types: ['Article'] } } : null,
+          },
+          damAssetType: null,
+        };
+      }
+
+      return {
+        _Content: {
+          items: items.map((_metadata) => ({
+            __typename: 'Article',
+            _metadata,
+          })),
+        },
+      };
+    });
+
+  return { client, request };
+}
+
+describe('GraphClient.getContentByPath() with locales', () => {
+  test('sends the locale and the fallback locales to both queries', async () => {
+    const { client, request } = mockClient([{ locale: 'sv' }]);
+    await client.getContentByPath('/sv/', {
+      locale: 'sv',
+      fallbackLocales: ['nb', 'en'],
+    });
+
+    expect(request.mock.calls.map(([, v]) => v.locale)).toStrictEqual([
+      ['sv', 'nb', 'en'],
+      ['sv', 'nb', 'en'],
+    ]);
+  });
+
+  test('returns the items in the requested locale', async () => {
+    const { client } = mockClient([{ locale: 'en' }, { locale: 'sv' }]);
+    const items = await client.getContentByPath('/sv/', {
+      locale: 'sv',
+      fallbackLocales: ['en'],
+    });
+
+    expect(items.map((i) => i._metadata.locale)).toStrictEqual(['sv']);
+  });
+
+  test('follows the fallback chain in order', async () => {
+    const { client } = mockClient([{ locale: 'en' }, { locale: 'nb' }]);
+    const items = await client.getContentByPath('/sv/', {
+      locale: 'sv',
+      fallbackLocales: ['nb', 'en'],
+    });
+
+    // The served locale is reported in `_metadata.locale`
+    expect(items.map((i) => i._metadata.locale)).toStrictEqual(['nb']);
+  });
+
+  test('matches items served by Graph as fallback for the locale', async () => {
+    const { client } = mockClient([
+      { locale: 'de' },
+      { locale: 'en', fallbackForLocale: 'sv' },
+    ]);
+    const items = await client.getContentByPath('/sv/', {
+      locale: 'sv',
+      fallbackLocales: ['de'],
+    });
+
+    expect(items.map((i) => i._metadata)).toStrictEqual([
+      { locale: 'en', fallbackForLocale: 'sv' },
+    ]);
+  });
+
+  test('returns an empty list when no locale has content', async () => {
+    const { client } = mockClient([{ locale: 'fr' }]);
+
+    expect(
+      await client.getContentByPath('/sv/', {
+        locale: 'sv',
+        fallbackLocales: ['en'],
+      }),
+    ).toStrictEqual([]);
+  });
+
+  test('returns an empty list when the path does not exist', async () => {
+    const { client, request } = mockClient([]);
+
+    expect(
+      await client.getContentByPath('/sv/missing/', { locale: 'sv' }),
+    ).toStrictEqual([]);
+    // Only the metadata query is sent
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  test('ignores fallbackLocales without locale', async () => {
+    const { client, request } = mockClient([
+      { locale: 'en' },
+      { locale: 'sv' },
+    ]);
+    const items = await client.getContentByPath('/', {
+      fallbackLocales: ['en'],
+    });
+
+    expect(request.mock.calls[0][1].locale).toBeUndefined();
+    expect(items).toHaveLength(2);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+
+function metadata(key: string, path: string, sortOrder: number) {
+  return {
+    key,
+    sortOrder,
+    displayName: key,
+    locale: 'en',
+    types: ['StandardPage', '_Page', '_Content'],
+    url: { base: 'https://example.com', hierarchical: path, default: path },
+  };
+}
+
+function children(
+  key: string,
+  items: ReturnType<typeof metadata>[],
+  total = items.length,
+) {
+  return {
+    _metadata: { key },
+    _link: { _Page: { items: items.map((m) => ({ _metadata: m })), total } },
+  };
+}
+
+describe('GraphClient.getNavigationTree()', () => {
+  test('returns null if the root page does not exist', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: { item: { _id: null } },
+    });
+
+    expect(await client.getNavigationTree('/en/missing/')).toBeNull();
+  });
+
+  test('fetches one level of descendants per request', async () => {
+    const client = new GraphClient('key');
+    const request = vi
+      .spyOn(client, 'request')
+      .mockResolvedValueOnce({
+        _Content: {
+          item: { _id: 'root', _metadata: metadata('root', '/en/', 0) },
+        },
+      })
+      .mockResolvedValueOnce({
+        _Content: {
+          items: [
+            children('root', [
+              metadata('news', '/en/news/', 200),
+              metadata('about', '/en/about/', 100),
+            ]),
+          ],
+        },
+      })
+      .mockResolvedValueOnce({
+        _Content: {
+          items: [
+            children('about', [metadata('team', '/en/about/team/', 100)]),
+            children('news', []),
+          ],
+        },
+      });
+
+    const tree = await client.getNavigationTree('/en/', {
+      depth: 2,
+      currentPath: '/en/about/team',
+    });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[1][1]).toStrictEqual({
+      keys: ['root'],
+      locale: ['en'],
+      limit: 100,
+      skip: 0,
+    });
+    expect(request.mock.calls[2][1].keys).toStrictEqual(['about', 'news']);
+
+    // Sorted by `sortOrder`
+    expect(tree?.children.map((c) => c._metadata.key)).toStrictEqual([
+      'about',
+      'news',
+    ]);
+
+    const [about, news] = tree!.children;
+    expect(tree?.isInActiveTrail).toBe(true);
+    expect(about.isInActiveTrail).toBe(true);
+    expect(about.isCurrent).toBe(false);
+    expect(about.children[0].isCurrent).toBe(true);
+    expect(news.isInActiveTrail).toBe(false);
+    expect(news.children).toStrictEqual([]);
+  });
+
+  test('excludes pages rejected by `filter`', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request')
+      .mockResolvedValueOnce({
+        _Content: {
+          item: { _id: 'root', _metadata: metadata('root', '/en/', 0) },
+        },
+      })
+      .mockResolvedValueOnce({
+        _Content: {
+          items: [
+            children('root', [
+              metadata('about', '/en/about/', 100),
+              metadata('hidden', '/en/hidden/', 200),
+            ]),
+          ],
+        },
+      });
+
+    const tree = await client.getNavigationTree('/en/', {
+      filter: (m) => m.key !== 'hidden',
+    });
+
+    expect(tree?.children.map((c) => c._metadata.key)).toStrictEqual(['about']);
+  });
+
+  test('fetches the remaining children of pages with more than 100', async () => {
+    const client = new GraphClient('key');
+    const pages = Array.from({ length: 150 }, (_, i) =>
+      metadata(`page${i}`, `/en/page${i}/`, i),
+    );
+    const request = vi
+      .spyOn(client, 'request')
+      .mockResolvedValueOnce({
+        _Content: {
+          item: { _id: 'root', _metadata: metadata('root', '/en/', 0) },
+        },
+      })
+      .mockResolvedValueOnce({
+        _Content: { items: [children('root', pages.slice(0, 100), 150)] },
+      })
+      .mockResolvedValueOnce({
+        _Content: { items: [children('root', pages.slice(100), 150)] },
+      });
+
+    const tree = await client.getNavigationTree('/en/');
+
+    expect(tree?.children).toHaveLength(150);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[2][1]).toMatchObject({
+      keys: ['root'],
+      skip: 100,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test, vi } from 'vitest';
+import { paginateWithCursor } from '../pagination.js';
+
+async function collect<T>(items: AsyncGenerator<T>) {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
+
+describe('paginateWithCursor()', () => {
+  test('follows the cursor until a page is empty', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce({ items: [1, 2], cursor: 'a' })
+      .mockResolvedValueOnce({ items: [3], cursor: 'b' })
+      .mockResolvedValueOnce({ items: [], cursor: 'c' });
+
+    expect(await collect(paginateWithCursor(fetchPage))).toStrictEqual([
+      1, 2, 3,
+    ]);
+    expect(fetchPage.mock.calls).toStrictEqual([
+      [100, ''],
+      [100, 'a'],
+      [100, 'b'],
+    ]);
+  });
+
+  test('stops without cursor or when all items are returned', async () => {
+    const withoutCursor = vi
+      .fn()
+      .mockResolvedValue({ items: [1], cursor: null });
+    const withTotal = vi
+      .fn()
+      .mockResolvedValue({ items: [1, 2], cursor: 'a', total: 2 });
+
+    expect(await collect(paginateWithCursor(withoutCursor))).toStrictEqual([1]);
+    expect(await collect(paginateWithCursor(withTotal))).toStrictEqual([1, 2]);
+    expect(withoutCursor).toHaveBeenCalledTimes(1);
+    expect(withTotal).toHaveBeenCalledTimes(1);
+  });
+
+  test('requests at most maxItems', async () => {
+    const fetchPage = vi.fn(async (limit: number) => ({
+      items: Array.from({ length: limit }, (_, i) => i),
+      cursor: 'next',
+    }));
+    const items = await collect(
+      paginateWithCursor(fetchPage, { pageSize: 10, maxItems: 15 }),
+    );
+
+    expect(items).toHaveLength(15);
+    expect(fetchPage.mock.calls.map(([limit]) => limit)).toStrictEqual([10, 5]);
+  });
+});
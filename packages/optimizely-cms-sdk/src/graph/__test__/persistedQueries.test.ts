@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { createPersistedQueries, hashQuery } from '../persistedQueries.js';
+import { GET_CONTENT_METADATA_QUERY } from '../queries.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function jsonResponse(body: any) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('hashQuery()', () => {
+  test('returns the hex-encoded SHA-256 hash', async () => {
+    expect(await hashQuery('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+  });
+});
+
+describe('GraphClient with persisted queries', () => {
+  test('sends only the hash when Graph knows the query', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ data: { ok: true } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new GraphClient('key', { persistedQueries: true });
+    const data = await client.request('query { ok }', {});
+
+    expect(data).toStrictEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as any)[1].body);
+    expect(body.query).toBeUndefined();
+    expect(body.extensions.persistedQuery.sha256Hash).toBe(
+      await hashQuery('query { ok }'),
+    );
+  });
+
+  test('sends the full query when Graph does not know the hash', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ errors: [{ message: 'PersistedQueryNotFound' }] }),
+      )
+      .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new GraphClient('key', { persistedQueries: true });
+    const data = await client.request('query { ok }', {});
+
+    expect(data).toStrictEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(body.query).toBe('query { ok }');
+    expect(body.extensions.persistedQuery).toBeDefined();
+  });
+});
+
+describe('createPersistedQueries()', () => {
+  test('generates unique queries for all content types', async () => {
+    initContentTypeRegistry([
+      contentType({ key: 'Article', baseType: '_page' }),
+      contentType({ key: 'Teaser', baseType: '_component' }),
+    ]);
+    const queries = await createPersistedQueries();
+    const hashes = queries.map((q) => q.hash);
+
+    expect(new Set(hashes).size).toBe(hashes.length);
+    expect(queries.some((q) => q.query.includes('Article(where'))).toBe(true);
+    expect(queries.some((q) => q.query.includes('...Article ...Teaser'))).toBe(
+      true,
+    );
+  });
+
+  test('includes the static, search and select queries', async () => {
+    initContentTypeRegistry([
+      contentType({
+        key: 'Article',
+        baseType: '_page',
+        properties: { title: { type: 'string' }, body: { type: 'string' } },
+      }),
+    ]);
+    const queries = (
+      await createPersistedQueries(false, {
+        select: { Article: [['title']] },
+        searchFacets: [['types']],
+      })
+    ).map((q) => q.query);
+
+    expect(queries).toContain(GET_CONTENT_METADATA_QUERY);
+    expect(queries.some((q) => q.includes('query GetNavigationRoot'))).toBe(
+      true,
+    );
+    expect(
+      queries.filter((q) => q.includes('query SearchContent')),
+    ).toHaveLength(4);
+    expect(
+      queries.some((q) => q.includes('Article(where') && !q.includes('body')),
+    ).toBe(true);
+  });
+
+  test('includes the queries the client sends', async () => {
+    initContentTypeRegistry([
+      contentType({ key: 'Article', baseType: '_page' }),
+    ]);
+    const hashes = (await createPersistedQueries()).map((q) => q.hash);
+    const fetchMock = vi.fn(async () =>
+      jsonResponse({
+        data: {
+          _Content: { item: { _metadata: { types: ['Article'] } }, items: [] },
+          damAssetType: null,
+        },
+      }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new GraphClient('key', { persistedQueries: true });
+    await client.getContentByPath('/en/');
+    await client.search('term');
+
+    for (const [, init] of fetchMock.mock.calls as any[]) {
+      const body = JSON.parse(init.body);
+      expect(hashes).toContain(body.extensions.persistedQuery.sha256Hash);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, expectTypeOf, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { createContentTypeQuery } from '../createQuery.js';
+import type { ContentTypeWhereInput } from '../filters.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: {
+    title: { type: 'string' },
+    views: { type: 'integer' },
+    tags: { type: 'array', items: { type: 'string' } },
+    body: { type: 'richText' },
+    hidden: { type: 'string', indexingType: 'disabled' },
+  },
+});
+
+describe('ContentQueryBuilder', () => {
+  test('builds the variables', () => {
+    const client = new GraphClient('key');
+    const variables = client
+      .query(Article)
+      .where({ title: { startsWith: 'How to' } })
+      .where({ views: { gt: 10 } })
+      .orderBy({ _metadata: { published: 'DESC' } })
+      .locale('en')
+      .limit(10)
+      .skip(20)
+      .toVariables();
+
+    expect(variables).toStrictEqual({
+      where: {
+        _and: [{ title: { startsWith: 'How to' } }, { views: { gt: 10 } }],
+      },
+      orderBy: { _metadata: { published: 'DESC' } },
+      locale: ['en'],
+      limit: 10,
+      skip: 20,
+    });
+  });
+
+  test('infers filter keys from the content type properties', () => {
+    type Where = ContentTypeWhereInput<typeof Article>;
+
+    expectTypeOf<Where>().toHaveProperty('title');
+    expectTypeOf<Where>().toHaveProperty('views');
+    expectTypeOf<Where>().toHaveProperty('tags');
+    expectTypeOf<Where>().not.toHaveProperty('body');
+    expectTypeOf<Where>().not.toHaveProperty('hidden');
+  });
+});
+
+describe('ContentQueryBuilder.paginate()', () => {
+  /** Creates a client that returns `total` items in pages of `limit` */
+  function mockClient(total: number) {
+    initContentTypeRegistry([Article]);
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi
+      .spyOn(client, 'request')
+      .mockImplementation(async (_query, variables) => {
+        const start = variables.cursor ? Number(variables.cursor) : 0;
+        const end = Math.min(start + variables.limit, total);
+        const items = [];
+        for (let i = start; i < end; i++) {
+          items.push({ __typename: 'Article', Article__title: `t${i}` });
+        }
+
+        return {
+          Article: { items, total, cursor: String(end) },
+        };
+      });
+
+    return { client, request };
+  }
+
+  test('fetches all pages', async () => {
+    const { client, request } = mockClient(25);
+    const items = await client.query(Article).getAll({ pageSize: 10 });
+
+    expect(items.map((i) => i.title)).toStrictEqual(
+      Array.from({ length: 25 }, (_, i) => `t${i}`),
+    );
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[0][1]).toMatchObject({ cursor: '', limit: 10 });
+    expect(request.mock.calls[1][1]).toMatchObject({ cursor: '10', limit: 10 });
+  });
+
+  test('stops at maxItems', async () => {
+    const { client, request } = mockClient(25);
+    const items = await client.getAll(Article, { pageSize: 10, maxItems: 15 });
+
+    expect(items).toHaveLength(15);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[1][1]).toMatchObject({ limit: 5 });
+  });
+});
+
+describe('createContentTypeQuery()', () => {
+  test('queries the content type with filters and pagination', () => {
+    initContentTypeRegistry([Article]);
+    const query = createContentTypeQuery('Article');
+
+    expect(query).toContain(
+      'query ListContentType($where: ArticleWhereInput, $orderBy: ArticleOrderByInput, $locale: [Locales], $limit: Int, $skip: Int, $cursor: String)',
+    );
+    expect(query).toContain('fragment Article on Article {');
+    expect(query).toContain('total');
+    expect(query).toContain('cursor');
+  });
+});
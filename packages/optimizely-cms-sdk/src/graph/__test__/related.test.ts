@@ -0,0 +1,123 @@
+import { beforeAll, describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { GraphMissingContentTypeError } from '../error.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: {
+    title: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    category: { type: 'string' },
+  },
+});
+
+const News = contentType({
+  key: 'News',
+  baseType: '_page',
+  properties: {
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+});
+
+const article = {
+  __typename: 'Article',
+  _metadata: { key: 'current', locale: 'en' },
+  title: 'Baking bread',
+  tags: ['bread', 'baking'],
+  category: 'food',
+};
+
+describe('GraphClient.getRelated()', () => {
+  beforeAll(() => {
+    initContentTypeRegistry([Article, News]);
+  });
+
+  test('builds a boosted query that excludes the content itself', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      Article: {
+        items: [{ __typename: 'Article', Article__title: 'Sourdough' }],
+        total: 1,
+        cursor: '',
+      },
+    });
+
+    const related = await client.getRelated(article, {
+      by: ['tags', { property: 'category', boost: 2 }],
+      limit: 3,
+    });
+
+    expect(request.mock.calls[0][0]).toContain('ListContentType');
+    expect(request.mock.calls[0][1]).toStrictEqual({
+      where: {
+        _and: [
+          {
+            _or: [
+              { tags: { in: ['bread', 'baking'], boost: 1 } },
+              { category: { in: ['food'], boost: 2 } },
+            ],
+          },
+          { _metadata: { key: { notEq: 'current' } } },
+        ],
+      },
+      orderBy: { _ranking: 'RELEVANCE' },
+      limit: 3,
+      locale: ['en'],
+    });
+    expect(related).toStrictEqual([
+      { __typename: 'Article', title: 'Sourdough' },
+    ]);
+  });
+
+  test('ranks items of multiple types by the number of shared values', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    vi.spyOn(client, 'request').mockImplementation(async (query: string) =>
+      query.includes('ListContentType($where: ArticleWhereInput')
+        ? {
+            Article: {
+              items: [{ __typename: 'Article', Article__tags: ['bread'] }],
+            },
+          }
+        : {
+            News: {
+              items: [{ __typename: 'News', News__tags: ['bread', 'baking'] }],
+            },
+          },
+    );
+
+    const related = await client.getRelated(article, {
+      by: ['tags'],
+      types: [Article, News],
+    });
+
+    expect(related.map((item) => item.__typename)).toStrictEqual([
+      'News',
+      'Article',
+    ]);
+  });
+
+  test('returns an empty list if the content has no values to compare', async () => {
+    const client = new GraphClient('key');
+    const request = vi.spyOn(client, 'request');
+
+    expect(
+      await client.getRelated({ ...article, tags: [] }, { by: ['tags'] }),
+    ).toStrictEqual([]);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  test('throws if the type of the content is not registered', async () => {
+    const client = new GraphClient('key');
+
+    await expect(
+      client.getRelated(
+        { ...article, __typename: 'Unknown' },
+        { by: ['tags'] },
+      ),
+    ).rejects.toThrow(GraphMissingContentTypeError);
+  });
+});
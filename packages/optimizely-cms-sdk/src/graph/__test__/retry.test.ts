@@ -0,0 +1,134 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { GraphHttpResponseError, GraphTimeoutError } from '../error.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  parseRetryAfter,
+} from '../retry.js';
+
+function jsonResponse(body: any, status = 200, headers = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/** A `fetch` that never resolves until the request is aborted */
+function hangingFetch(_url: URL | RequestInfo, init?: RequestInit) {
+  return new Promise<Response>((_, reject) => {
+    if (init?.signal?.aborted) {
+      reject(init.signal.reason);
+    }
+    init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+  });
+}
+
+describe('parseRetryAfter()', () => {
+  test('parses seconds and dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('invalid', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe('getRetryDelay()', () => {
+  test('grows exponentially up to `maxDelay`', () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, minDelay: 100, maxDelay: 300 };
+
+    expect(getRetryDelay(0, options)).toBeGreaterThanOrEqual(50);
+    expect(getRetryDelay(0, options)).toBeLessThanOrEqual(100);
+    expect(getRetryDelay(1, options)).toBeGreaterThanOrEqual(100);
+    expect(getRetryDelay(5, options)).toBeLessThanOrEqual(300);
+  });
+
+  test('uses the `Retry-After` header', () => {
+    const response = new Response(null, {
+      status: 429,
+      headers: { 'Retry-After': '3' },
+    });
+    expect(getRetryDelay(0, DEFAULT_RETRY_OPTIONS, response)).toBe(3000);
+  });
+
+  test('limits the `Retry-After` header to `maxDelay`', () => {
+    const response = new Response(null, {
+      status: 503,
+      headers: { 'Retry-After': '3600' },
+    });
+    expect(getRetryDelay(0, DEFAULT_RETRY_OPTIONS, response)).toBe(5000);
+  });
+});
+
+describe('GraphClient retries', () => {
+  test('retries transient errors', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({}, 429, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse({ data: { ok: true } }));
+    const client = new GraphClient('key', { fetch, retry: { minDelay: 1 } });
+
+    expect(await client.request('query { ok }', {})).toStrictEqual({
+      ok: true,
+    });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry other errors', async () => {
+    const fetch = vi.fn(async () => jsonResponse({}, 400));
+    const client = new GraphClient('key', { fetch, retry: { minDelay: 1 } });
+
+    await expect(client.request('query { ok }', {})).rejects.toThrow(
+      GraphHttpResponseError,
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('gives up after `retries`', async () => {
+    const fetch = vi.fn(async () => jsonResponse({}, 502));
+    const client = new GraphClient('key', {
+      fetch,
+      retry: { retries: 1, minDelay: 1 },
+    });
+
+    await expect(client.request('query { ok }', {})).rejects.toThrow(
+      'HTTP 502',
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('GraphClient timeouts and cancellation', () => {
+  test('throws `GraphTimeoutError` when the timeout is exceeded', async () => {
+    const client = new GraphClient('key', { fetch: hangingFetch, timeout: 10 });
+
+    await expect(client.request('query { ok }', {})).rejects.toThrow(
+      GraphTimeoutError,
+    );
+  });
+
+  test('per-request timeout overrides the client timeout', async () => {
+    const client = new GraphClient('key', {
+      fetch: hangingFetch,
+      timeout: 60_000,
+    });
+
+    await expect(
+      client.request('query { ok }', {}, undefined, { timeout: 10 }),
+    ).rejects.toThrow(GraphTimeoutError);
+  });
+
+  test('can be cancelled with a signal', async () => {
+    const client = new GraphClient('key', { fetch: hangingFetch });
+    const controller = new AbortController();
+    const promise = client.request('query { ok }', {}, undefined, {
+      signal: controller.signal,
+    });
+    controller.abort(new Error('cancelled'));
+
+    await expect(promise).rejects.toThrow('cancelled');
+  });
+});
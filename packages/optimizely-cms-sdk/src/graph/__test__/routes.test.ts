@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { getAllRoutes, getPathSegments } from '../routes.js';
+
+function item(key: string, locale: string, path: string | null) {
+  return {
+    _metadata: {
+      key,
+      locale,
+      url: { base: 'https://example.com', default: path },
+    },
+  };
+}
+
+describe('getPathSegments()', () => {
+  test('removes leading, trailing and repeated slashes', () => {
+    expect(getPathSegments('/en/about/')).toStrictEqual(['en', 'about']);
+    expect(getPathSegments('en//about')).toStrictEqual(['en', 'about']);
+    expect(getPathSegments('/')).toStrictEqual([]);
+  });
+});
+
+describe('getAllRoutes()', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('pages through all routable content of the host', async () => {
+    const client = new GraphClient('key');
+    const request = vi
+      .spyOn(client, 'request')
+      .mockResolvedValueOnce({
+        _Content: {
+          items: [item('a', 'en', '/en/'), item('b', 'en', '/en/about/')],
+          cursor: 'next',
+        },
+      })
+      .mockResolvedValueOnce({
+        _Content: { items: [item('c', 'sv', '/sv/om-oss/')], cursor: 'next' },
+      })
+      .mockResolvedValueOnce({ _Content: { items: [], cursor: 'next' } });
+
+    const routes = await getAllRoutes(client, {
+      host: 'https://example.com',
+      locales: ['en', 'sv'],
+      baseTypes: ['_page'],
+    });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[0][1]).toStrictEqual({
+      where: {
+        _metadata: {
+          types: { in: ['_Page'] },
+          url: { base: { eq: 'https://example.com' } },
+        },
+      },
+      locale: ['en', 'sv'],
+      limit: 100,
+      cursor: '',
+    });
+    expect(request.mock.calls[2][1].cursor).toBe('next');
+    expect(routes).toStrictEqual([
+      { key: 'a', locale: 'en', path: '/en/', segments: ['en'] },
+      {
+        key: 'b',
+        locale: 'en',
+        path: '/en/about/',
+        segments: ['en', 'about'],
+      },
+      {
+        key: 'c',
+        locale: 'sv',
+        path: '/sv/om-oss/',
+        segments: ['sv', 'om-oss'],
+      },
+    ]);
+  });
+
+  test('uses `APPLICATION_HOST` by default and skips content without URL', async () => {
+    vi.stubEnv('APPLICATION_HOST', 'https://env.example.com');
+    const client = new GraphClient('key');
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        items: [item('a', 'en', null), item('b', 'en', '/en/b/')],
+        cursor: '',
+      },
+    });
+
+    const routes = await getAllRoutes(client);
+
+    expect(request.mock.calls[0][1].where).toStrictEqual({
+      _metadata: {
+        types: { in: ['_Page', '_Experience'] },
+        url: { base: { eq: 'https://env.example.com' } },
+      },
+    });
+    expect(routes.map((r) => r.path)).toStrictEqual(['/en/b/']);
+  });
+});
@@ -0,0 +1,129 @@
+import { beforeAll, describe, expect, expectTypeOf, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { createSearchQuery } from '../createQuery.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: {
+    title: { type: 'string' },
+  },
+});
+
+describe('createSearchQuery()', () => {
+  beforeAll(() => {
+    initContentTypeRegistry([Article]);
+  });
+
+  test('includes highlighting and facets', () => {
+    const query = createSearchQuery(['Article'], false, {
+      facets: ['types', 'locale'],
+      highlight: { startToken: '<em>', endToken: '</em>' },
+    });
+
+    expect(query).toContain(
+      '_fulltext(highlight: { enabled: true, startToken: "<em>", endToken: "</em>" })',
+    );
+    expect(query).toContain(
+      'facets { _metadata { types { name count } locale { name count } } }',
+    );
+    expect(query).toContain('orderBy: { _ranking: RELEVANCE }');
+    expect(query).toContain('...Article');
+  });
+
+  test('omits highlighting and facets when not requested', () => {
+    const query = createSearchQuery([], false, { highlight: false });
+
+    expect(query).not.toContain('_fulltext');
+    expect(query).not.toContain('facets');
+    expect(query).toContain('..._IContent');
+  });
+});
+
+describe('GraphClient.search()', () => {
+  beforeAll(() => {
+    initContentTypeRegistry([Article]);
+  });
+
+  test('returns ranked hits with highlights and facets', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        items: [
+          {
+            __typename: 'Article',
+            _score: 2.5,
+            _fulltext: ['How to <mark>bake</mark> bread'],
+            Article__title: 'Baking',
+          },
+        ],
+        facets: {
+          _metadata: { types: [{ name: 'Article', count: 1 }] },
+        },
+        total: 1,
+        cursor: 'next',
+      },
+    });
+
+    const result = await client.search('bake', {
+      types: [Article],
+      locales: ['en'],
+      facets: ['types'],
+      fuzzy: true,
+      limit: 10,
+    });
+
+    expect(request.mock.calls[0][1]).toStrictEqual({
+      where: {
+        _and: [
+          { _fulltext: { match: 'bake', fuzzy: true } },
+          { _metadata: { types: { in: ['Article'] } } },
+        ],
+      },
+      locale: ['en'],
+      limit: 10,
+      cursor: undefined,
+    });
+    expect(result).toStrictEqual({
+      hits: [
+        {
+          item: { __typename: 'Article', title: 'Baking' },
+          score: 2.5,
+          highlights: ['How to <mark>bake</mark> bread'],
+        },
+      ],
+      total: 1,
+      cursor: 'next',
+      facets: { types: [{ name: 'Article', count: 1 }] },
+    });
+
+    expectTypeOf(result.hits[0].item.title).toEqualTypeOf<string | null>();
+  });
+
+  test('searches all content when no types are given', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: { items: [], total: 0, cursor: '' },
+    });
+
+    const result = await client.search('bake', {
+      where: { _metadata: { locale: { eq: 'en' } } },
+    });
+
+    expect(request.mock.calls[0][1].where).toStrictEqual({
+      _and: [
+        { _fulltext: { match: 'bake' } },
+        { _metadata: { locale: { eq: 'en' } } },
+      ],
+    });
+    expect(result).toStrictEqual({
+      hits: [],
+      total: 0,
+      cursor: '',
+      facets: {},
+    });
+  });
+});
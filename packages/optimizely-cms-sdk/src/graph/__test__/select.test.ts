@@ -0,0 +1,171 @@
+import { beforeAll, describe, expect, expectTypeOf, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { createFragment } from '../createQuery.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+import type { ContentPath, SelectedContent } from '../../infer.js';
+
+const Hero = contentType({
+  key: 'Hero',
+  baseType: '_component',
+  properties: {
+    heading: { type: 'string' },
+    image: { type: 'contentReference' },
+    body: { type: 'richText' },
+  },
+});
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    hero: { type: 'component', contentType: Hero },
+    heroes: { type: 'array', items: { type: 'component', contentType: Hero } },
+    blocks: { type: 'content' },
+    hidden: { type: 'string', indexingType: 'disabled' },
+  },
+});
+
+const Landing = contentType({
+  key: 'Landing',
+  baseType: '_page',
+  properties: {
+    title: { type: 'string' },
+    heading: { type: 'string' },
+  },
+});
+
+beforeAll(() => {
+  initContentTypeRegistry([Hero, Article, Landing]);
+});
+
+describe('createFragment() with `select`', () => {
+  test('includes only the selected properties', () => {
+    const result = createFragment('Article', new Set(), '', true, false, [
+      'title',
+      'summary',
+    ]);
+
+    expect(result.at(-1)).toBe(
+      'fragment Article on Article { __typename Article__title:title Article__summary:summary ..._IContent }',
+    );
+    expect(result.some((f) => f.includes('HeroProperty'))).toBe(false);
+  });
+
+  test('inlines the selected properties of components', () => {
+    const result = createFragment('Article', new Set(), '', true, false, [
+      'hero.heading',
+      'heroes.image',
+    ]);
+
+    expect(result.at(-1)).toBe(
+      'fragment Article on Article { __typename Article__hero:hero { __typename HeroProperty__heading:heading } Article__heroes:heroes { __typename image { key url { ...ContentUrl } } } ..._IContent }',
+    );
+  });
+
+  test('selecting a whole component uses its fragment', () => {
+    const result = createFragment('Article', new Set(), '', true, false, [
+      'hero',
+      'hero.heading',
+    ]);
+
+    expect(result).toContain(
+      'fragment HeroProperty on HeroProperty { __typename HeroProperty__heading:heading image { key url { ...ContentUrl } } HeroProperty__body:body { html, json } }',
+    );
+    expect(result.at(-1)).toBe(
+      'fragment Article on Article { __typename Article__hero:hero { ...HeroProperty } ..._IContent }',
+    );
+  });
+});
+
+describe('`select` types', () => {
+  test('`ContentPath` includes nested paths of components', () => {
+    expectTypeOf<ContentPath<typeof Article>>().toEqualTypeOf<
+      | 'title'
+      | 'summary'
+      | 'hero'
+      | 'hero.heading'
+      | 'hero.image'
+      | 'hero.body'
+      | 'heroes'
+      | 'heroes.heading'
+      | 'heroes.image'
+      | 'heroes.body'
+      | 'blocks'
+    >();
+  });
+
+  test('`SelectedContent` includes only the selected properties', () => {
+    type Card = SelectedContent<typeof Article, 'title' | 'hero.heading'>;
+
+    expectTypeOf<Card>().toHaveProperty('title');
+    expectTypeOf<Card>().toHaveProperty('_metadata');
+    expectTypeOf<Card>().not.toHaveProperty('summary');
+    expectTypeOf<Card>().not.toHaveProperty('blocks');
+    expectTypeOf<NonNullable<Card['hero']>>().toHaveProperty('heading');
+    expectTypeOf<NonNullable<Card['hero']>>().not.toHaveProperty('body');
+  });
+});
+
+describe('GraphClient with `select`', () => {
+  test('getContentByPath() fetches only the selected properties', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        items: [{ __typename: 'Article', Article__title: 'Hello' }],
+      },
+    });
+
+    const items = await client.getContentByPath('/en/', {
+      contentType: [Article, Landing],
+      select: ['title', 'heading'],
+    });
+
+    const query = request.mock.calls[0][0];
+    expect(query).toContain('Article__title:title');
+    expect(query).toContain('Landing__title:title Landing__heading:heading');
+    expect(query).not.toContain('summary');
+    expect(items[0]).toMatchObject({ __typename: 'Article', title: 'Hello' });
+
+    const item = items[0];
+    if (item.__typename === 'Article') {
+      expectTypeOf(item).toHaveProperty('title');
+      expectTypeOf(item).not.toHaveProperty('summary');
+    }
+  });
+
+  test('query().select() narrows the items', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      Article: {
+        items: [{ __typename: 'Article', Article__title: 'Hello' }],
+        total: 1,
+      },
+    });
+
+    const items = await client.query(Article).select(['title']).get();
+
+    expect(request.mock.calls[0][0]).not.toContain('summary');
+    expect(items).toEqual([{ __typename: 'Article', title: 'Hello' }]);
+    expectTypeOf(items[0]).toHaveProperty('title');
+    expectTypeOf(items[0]).not.toHaveProperty('summary');
+  });
+
+  test('getAll() accepts `select`', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'isDamEnabled').mockResolvedValue(false);
+    const request = vi.spyOn(client, 'request').mockResolvedValue({
+      Article: { items: [], total: 0 },
+    });
+
+    const items = await client.getAll(Article, { select: ['summary'] });
+
+    expect(request.mock.calls[0][0]).toContain('Article__summary:summary');
+    expect(request.mock.calls[0][0]).not.toContain('Article__title');
+    expectTypeOf<(typeof items)[number]>().toHaveProperty('summary');
+    expectTypeOf<(typeof items)[number]>().not.toHaveProperty('title');
+  });
+});
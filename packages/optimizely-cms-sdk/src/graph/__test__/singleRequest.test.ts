@@ -0,0 +1,104 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { createMultipleContentQuery } from '../createQuery.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: { title: { type: 'string' } },
+});
+
+const Landing = contentType({
+  key: 'Landing',
+  baseType: '_experience',
+});
+
+const Teaser = contentType({
+  key: 'Teaser',
+  baseType: '_component',
+  properties: { text: { type: 'string' } },
+});
+
+describe('createMultipleContentQuery() with several content types', () => {
+  test('includes the fragments of all content types once', () => {
+    initContentTypeRegistry([Article, Teaser]);
+    const query = createMultipleContentQuery(['Article', 'Teaser']);
+
+    expect(query).toContain('...Article ...Teaser');
+    expect(query.match(/fragment _IContent on _IContent/g)).toHaveLength(1);
+    expect(query).toContain('fragment Article on Article {');
+    expect(query).toContain('fragment Teaser on Teaser {');
+  });
+});
+
+describe('GraphClient in single request mode', () => {
+  test('getContentByPath() sends one request per call', async () => {
+    initContentTypeRegistry([Article, Landing, Teaser]);
+    const client = new GraphClient('key', { singleRequest: true });
+    const request = vi
+      .spyOn(client, 'request')
+      .mockImplementation(async (query) => {
+        if (query.includes('GetDamEnabled')) {
+          return { damAssetType: null };
+        }
+        return {
+          _Content: { items: [{ __typename: 'Article', Article__title: 't' }] },
+        };
+      });
+
+    const items = await client.getContentByPath('/en/');
+    await client.getContentByPath('/en/about/');
+
+    expect(items).toStrictEqual([{ __typename: 'Article', title: 't' }]);
+    // DAM check (cached) + one request per call
+    expect(request).toHaveBeenCalledTimes(3);
+
+    const query = request.mock.calls[1][0];
+    expect(query).toContain('...Article ...Landing');
+    expect(query).not.toContain('...Teaser');
+  });
+});
+
+describe('GraphClient.isDamEnabled()', () => {
+  test('caches the result', async () => {
+    const client = new GraphClient('key');
+    const request = vi
+      .spyOn(client, 'request')
+      .mockResolvedValue({ damAssetType: { __typename: '__Type' } });
+
+    expect(await client.isDamEnabled()).toBe(true);
+    expect(await client.isDamEnabled()).toBe(true);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GraphClient in two request mode', () => {
+  test('checks if DAM is enabled only in the first metadata query', async () => {
+    initContentTypeRegistry([Article]);
+    const client = new GraphClient('key');
+    const request = vi
+      .spyOn(client, 'request')
+      .mockImplementation(async (query) => {
+        if (query.includes('GetContentMetadata')) {
+          return {
+            _Content: { item: { _metadata: { types: ['Article'] } } },
+            damAssetType: query.includes('cmp_Asset') ? null : undefined,
+          };
+        }
+        return { _Content: { items: [] } };
+      });
+
+    await client.getContentByPath('/en/');
+    await client.getContentByPath('/en/about/');
+
+    const metadataQueries = request.mock.calls
+      .map(([query]) => query)
+      .filter((query) => query.includes('GetContentMetadata'));
+
+    expect(metadataQueries).toHaveLength(2);
+    expect(metadataQueries[0]).toContain('cmp_Asset');
+    expect(metadataQueries[1]).not.toContain('cmp_Asset');
+    expect(await client.isDamEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { generateRobotsTxt, generateSitemap } from '../sitemap.js';
+
+function page(
+  key: string,
+  locale: string,
+  path: string,
+  extra: Record<string, unknown> = {},
+) {
+  return {
+    _metadata: {
+      key,
+      locale,
+      lastModified: '2025-01-01T00:00:00Z',
+      url: { base: 'https://example.com', default: path },
+      locales: [locale],
+      expired: null,
+      ...extra,
+    },
+  };
+}
+
+describe('generateSitemap()', () => {
+  test('pages through all routable content of the host', async () => {
+    const client = new GraphClient('key');
+    const request = vi
+      .spyOn(client, 'request')
+      .mockResolvedValueOnce({
+        _Content: { items: [page('a', 'en', '/en/')], cursor: 'next' },
+      })
+      .mockResolvedValueOnce({
+        _Content: { items: [page('b', 'en', '/en/b/')], cursor: 'next' },
+      })
+      .mockResolvedValueOnce({ _Content: { items: [], cursor: '' } });
+
+    const [sitemap] = await generateSitemap(client, {
+      host: 'https://example.com',
+      locales: ['en'],
+    });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[0][1]).toStrictEqual({
+      where: {
+        _metadata: {
+          types: { in: ['_Page', '_Experience'] },
+          url: { base: { eq: 'https://example.com' } },
+        },
+      },
+      locale: ['en'],
+      limit: 100,
+      cursor: '',
+    });
+    expect(request.mock.calls[1][1].cursor).toBe('next');
+    expect(sitemap.path).toBe('sitemap.xml');
+    expect(sitemap.xml).toMatchInlineSnapshot(`
+      "<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+        <url>
+          <loc>https://example.com/en/</loc>
+          <lastmod>2025-01-01T00:00:00Z</lastmod>
+        </url>
+        <url>
+          <loc>https://example.com/en/b/</loc>
+          <lastmod>2025-01-01T00:00:00Z</lastmod>
+        </url>
+      </urlset>"
+    `);
+  });
+
+  test('adds hreflang alternates and excludes expired content', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        items: [
+          page('a', 'en', '/en/about/', { locales: ['en', 'sv'] }),
+          page('a', 'sv', '/sv/om-oss/', { locales: ['en', 'sv'] }),
+          page('b', 'en', '/en/old/', { expired: '2000-01-01T00:00:00Z' }),
+          page('c', 'en', '/en/a&b/'),
+        ],
+        cursor: '',
+      },
+    });
+
+    const [sitemap] = await generateSitemap(client, {
+      host: 'https://example.com',
+    });
+
+    expect(sitemap.xml).not.toContain('/en/old/');
+    expect(sitemap.xml).toContain('/en/a&amp;b/');
+    expect(sitemap.xml).toContain(
+      '<xhtml:link rel="alternate" hreflang="sv" href="https://example.com/sv/om-oss/"/>',
+    );
+    expect(sitemap.xml.match(/hreflang="en"/g)).toHaveLength(2);
+  });
+
+  test('splits the sitemap into multiple files', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        items: [
+          page('a', 'en', '/en/a/'),
+          page('b', 'en', '/en/b/'),
+          page('c', 'en', '/en/c/'),
+        ],
+        cursor: '',
+      },
+    });
+
+    const files = await generateSitemap(client, {
+      host: 'https://example.com',
+      maxUrlsPerSitemap: 2,
+    });
+
+    expect(files.map((f) => f.path)).toStrictEqual([
+      'sitemap.xml',
+      'sitemap-1.xml',
+      'sitemap-2.xml',
+    ]);
+    expect(files[0].xml).toContain('<sitemapindex');
+    expect(files[0].xml).toContain(
+      '<sitemap><loc>https://example.com/sitemap-2.xml</loc></sitemap>',
+    );
+    expect(files[2].xml).toContain('https://example.com/en/c/');
+  });
+});
+
+describe('generateRobotsTxt()', () => {
+  test('points to the sitemap', () => {
+    expect(
+      generateRobotsTxt({ host: 'https://example.com', disallow: ['/api/'] }),
+    ).toBe(
+      'User-agent: *\nDisallow: /api/\n\nSitemap: https://example.com/sitemap.xml\n',
+    );
+  });
+});
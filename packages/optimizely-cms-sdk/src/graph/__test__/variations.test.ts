@@ -0,0 +1,128 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import { variationFilter } from '../filters.js';
+import { contentType, initContentTypeRegistry } from '../../model/index.js';
+
+const Article = contentType({
+  key: 'Article',
+  baseType: '_page',
+  properties: { title: { type: 'string' } },
+});
+
+/** Creates a client whose content queries return the given items */
+function mockClient(items: { variation?: string }[]) {
+  initContentTypeRegistry([Article]);
+  const client = new GraphClient('key');
+  const request = vi
+    .spyOn(client, 'request')
+    .mockImplementation(async (query) => {
+      if (query.includes('GetContentMetadata')) {
+        return {
+          _Content: { item: { _metadata: { types: ['Article'] } } },
+          damAssetType: null,
+        };
+      }
+
+      return {
+        _Content: {
+          items: items.map(({ variation }) => ({
+            __typename: 'Article',
+            _metadata: { variation },
+          })),
+        },
+      };
+    });
+
+  return { client, request };
+}
+
+/** Returns the `variation` sent in the metadata and content queries */
+function sentVariations(request: ReturnType<typeof mockClient>['request']) {
+  return request.mock.calls.map(([, variables]) => variables.variation);
+}
+
+describe('variationFilter()', () => {
+  test('returns the variation input', () => {
+    expect(variationFilter({ include: 'ALL' })).toStrictEqual({
+      variation: { include: 'ALL' },
+    });
+    expect(variationFilter()).toStrictEqual({ variation: undefined });
+  });
+});
+
+describe('GraphClient.getContentByPath() with variations', () => {
+  test('does not request variations by default', async () => {
+    const { client, request } = mockClient([{}]);
+    await client.getContentByPath('/en/');
+
+    expect(sentVariations(request)).toStrictEqual([undefined, undefined]);
+  });
+
+  test.each([
+    { include: 'ALL' as const },
+    { include: 'NONE' as const },
+    { include: 'SOME' as const, value: ['var1', 'var2'] },
+  ])(
+    'sends $include to the metadata and content queries',
+    async (variation) => {
+      const { client, request } = mockClient([{ variation: 'var1' }]);
+      const items = await client.getContentByPath('/en/', { variation });
+
+      expect(sentVariations(request)).toStrictEqual([variation, variation]);
+      // Without `fallbackToOriginal`, items are returned as Graph sends them
+      expect(items).toHaveLength(1);
+    },
+  );
+
+  test('requests the original content with fallbackToOriginal', async () => {
+    const { client, request } = mockClient([]);
+    await client.getContentByPath('/en/', {
+      variation: { include: 'SOME', value: ['var1'], fallbackToOriginal: true },
+    });
+
+    const expected = {
+      include: 'SOME',
+      value: ['var1'],
+      includeOriginal: true,
+    };
+    expect(sentVariations(request)).toStrictEqual([expected, expected]);
+  });
+
+  test('returns only the requested variations when they exist', async () => {
+    const { client } = mockClient([
+      {},
+      { variation: 'var1' },
+      { variation: 'var2' },
+    ]);
+    const items = await client.getContentByPath('/en/', {
+      variation: { include: 'SOME', value: ['var1'], fallbackToOriginal: true },
+    });
+
+    expect(items.map((i) => i._metadata.variation)).toStrictEqual(['var1']);
+  });
+
+  test('returns the original content when no variation matches', async () => {
+    const { client } = mockClient([{}, { variation: 'var2' }]);
+    const items = await client.getContentByPath('/en/', {
+      variation: { include: 'SOME', value: ['var1'], fallbackToOriginal: true },
+    });
+
+    expect(items.map((i) => i._metadata.variation)).toStrictEqual([undefined]);
+  });
+
+  test('returns all variations with include ALL', async () => {
+    const { client } = mockClient([
+      {},
+      { variation: 'var1' },
+      { variation: 'var2' },
+    ]);
+    const items = await client.getContentByPath('/en/', {
+      variation: { include: 'ALL', fallbackToOriginal: true },
+    });
+
+    expect(items.map((i) => i._metadata.variation)).toStrictEqual([
+      'var1',
+      'var2',
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, expect, test, vi } from 'vitest';
+import { GraphClient } from '../index.js';
+import {
+  createGraphWebhookHandler,
+  parseDocId,
+  resolveDocUrls,
+} from '../webhooks.js';
+
+function webhookRequest(body: any, secret = 'my-secret') {
+  return new Request(`https://example.com/webhooks?secret=${secret}`, {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+const docUpdated = {
+  timestamp: '2025-01-01T00:00:00Z',
+  tenantId: 'tenant',
+  type: { subject: 'doc', action: 'updated' },
+  data: { docId: '0c5d8d1a-7b4f-4cf5-9e0d-3e5d4a0f3c2b_en_Published' },
+};
+
+describe('parseDocId()', () => {
+  test('returns the parts of the ID', () => {
+    expect(
+      parseDocId('0c5d8d1a-7b4f-4cf5-9e0d-3e5d4a0f3c2b_en_Published'),
+    ).toStrictEqual({
+      id: '0c5d8d1a7b4f4cf59e0d3e5d4a0f3c2b',
+      locale: 'en',
+      status: 'Published',
+    });
+  });
+
+  test('returns null for invalid IDs', () => {
+    expect(parseDocId('invalid')).toBeNull();
+  });
+});
+
+describe('resolveDocUrls()', () => {
+  test('returns the path of the document and its ancestors', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        item: {
+          _metadata: {
+            url: { base: 'https://example.com', default: '/en/news/a/' },
+          },
+        },
+      },
+    });
+    const getPath = vi.spyOn(client, 'getPath').mockResolvedValue([
+      { _metadata: { url: { default: '/en/' } } },
+      { _metadata: { url: { default: '/en/news/' } } },
+      { _metadata: { url: { default: '/en/news/a/' } } },
+    ] as any);
+
+    expect(await resolveDocUrls(client, docUpdated.data.docId)).toStrictEqual([
+      '/en/news/a/',
+      '/en/',
+      '/en/news/',
+    ]);
+    expect(client.request).toHaveBeenCalledWith(expect.any(String), {
+      id: '0c5d8d1a7b4f4cf59e0d3e5d4a0f3c2b',
+      locale: 'en',
+    });
+    expect(getPath).toHaveBeenCalledWith('/en/news/a/', {
+      host: 'https://example.com',
+      locales: ['en'],
+    });
+  });
+
+  test('returns an empty list if the document does not have a URL', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: { item: {} },
+    });
+
+    expect(await resolveDocUrls(client, docUpdated.data.docId)).toStrictEqual(
+      [],
+    );
+  });
+});
+
+describe('createGraphWebhookHandler()', () => {
+  test('rejects requests without the right secret', async () => {
+    const onDocUpdated = vi.fn();
+    const handler = createGraphWebhookHandler({
+      secret: 'my-secret',
+      onDocUpdated,
+    });
+
+    expect((await handler(webhookRequest(docUpdated, 'wrong'))).status).toBe(
+      401,
+    );
+    expect(
+      (
+        await handler(
+          new Request('https://example.com/webhooks', {
+            method: 'POST',
+            body: JSON.stringify(docUpdated),
+          }),
+        )
+      ).status,
+    ).toBe(401);
+    expect(onDocUpdated).not.toHaveBeenCalled();
+  });
+
+  test('reads the secret from the `x-webhook-secret` header', async () => {
+    const handler = createGraphWebhookHandler({ secret: 'my-secret' });
+    const response = await handler(
+      new Request('https://example.com/webhooks', {
+        method: 'POST',
+        headers: { 'x-webhook-secret': 'my-secret' },
+        body: JSON.stringify(docUpdated),
+      }),
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  test('rejects invalid payloads', async () => {
+    const handler = createGraphWebhookHandler({ secret: 'my-secret' });
+
+    expect((await handler(webhookRequest('not json'))).status).toBe(400);
+    expect((await handler(webhookRequest({ data: {} }))).status).toBe(400);
+  });
+
+  test('calls `onDocUpdated` with the affected paths', async () => {
+    const client = new GraphClient('key');
+    vi.spyOn(client, 'request').mockResolvedValue({
+      _Content: {
+        item: { _metadata: { url: { base: null, default: '/en/about/' } } },
+      },
+    });
+    vi.spyOn(client, 'getPath').mockResolvedValue([
+      { _metadata: { url: { default: '/en/' } } },
+    ] as any);
+    const onDocUpdated = vi.fn();
+    const handler = createGraphWebhookHandler({
+      secret: 'my-secret',
+      client,
+      onDocUpdated,
+    });
+
+    expect((await handler(webhookRequest(docUpdated))).status).toBe(200);
+    expect(onDocUpdated).toHaveBeenCalledWith({
+      payload: docUpdated,
+      doc: {
+        id: '0c5d8d1a7b4f4cf59e0d3e5d4a0f3c2b',
+        locale: 'en',
+        status: 'Published',
+      },
+      paths: ['/en/about/', '/en/'],
+    });
+  });
+
+  test('calls `onBulkCompleted` with the deleted documents', async () => {
+    const onBulkCompleted = vi.fn();
+    const handler = createGraphWebhookHandler({
+      secret: 'my-secret',
+      onBulkCompleted,
+    });
+    const payload = {
+      type: { subject: 'bulk', action: 'completed' },
+      data: {
+        journalId: 'journal',
+        items: {
+          aaaa_en_Published: 'indexed',
+          bbbb_sv_Published: 'deleted',
+        },
+      },
+    };
+
+    await handler(webhookRequest(payload));
+
+    expect(onBulkCompleted).toHaveBeenCalledWith({
+      payload,
+      items: [
+        {
+          docId: 'aaaa_en_Published',
+          doc: { id: 'aaaa', locale: 'en', status: 'Published' },
+          status: 'indexed',
+        },
+        {
+          docId: 'bbbb_sv_Published',
+          doc: { id: 'bbbb', locale: 'sv', status: 'Published' },
+          status: 'deleted',
+        },
+      ],
+      deleted: ['bbbb_sv_Published'],
+    });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * This module contains the functions to combine several GraphQL requests
+ * into one (batching) and split the response back.
+ *
+ * The functions work with the queries generated by the SDK: documents with
+ * fragments and a single `query` operation.
+ *
+ * This is used internally in the SDK
+ */
+
+import { GraphContentResponseError } from './error.js';
+import { removeTypePrefix } from './removeTypePrefix.js';
+
+type GraphQLRequest = {
+  query: string;
+  variables: any;
+};
+
+type ParsedDocument = {
+  /** Fragment definitions by name */
+  fragments: Map<string, string>;
+
+  /** Variable definitions of the operation (e.g. `{ name: 'where', type: '_ContentWhereInput' }`) */
+  variableDefinitions: { name: string; type: string }[];
+
+  /** Selection set of the operation, without the outer braces */
+  selections: string;
+};
+
+/** A document where the string literals are replaced by placeholders */
+type ProtectedDocument = {
+  text: string;
+
+  /** The replaced string literals, by placeholder index */
+  strings: string[];
+};
+
+/** Placeholder of the string literal in position `index`. It contains no GraphQL punctuation */
+function stringPlaceholder(index: number) {
+  return `"\u0000${index}"`;
+}
+
+/**
+ * Removes the comments of a GraphQL document and replaces its string and
+ * block string literals with placeholders, so the document can be scanned
+ * for braces, names and variables without looking inside the strings.
+ */
+function protectStrings(query: string): ProtectedDocument {
+  const strings: string[] = [];
+  let text = '';
+  let i = 0;
+
+  while (i < query.length) {
+    if (query[i] === '#') {
+      const end = query.indexOf('\n', i);
+      i = end === -1 ? query.length : end;
+    } else if (query.startsWith('"""', i)) {
+      let end = i + 3;
+      while (end < query.length && !query.startsWith('"""', end)) {
+        end += query.startsWith('\\"""', end) ? 4 : 1;
+      }
+      text += stringPlaceholder(strings.push(query.slice(i, end + 3)) - 1);
+      i = end + 3;
+    } else if (query[i] === '"') {
+      let end = i + 1;
+      while (end < query.length && query[end] !== '"') {
+        end += query[end] === '\\' ? 2 : 1;
+      }
+      text += stringPlaceholder(strings.push(query.slice(i, end + 1)) - 1);
+      i = end + 1;
+    } else {
+      text += query[i];
+      i++;
+    }
+  }
+
+  return { text, strings };
+}
+
+/** Puts back the string literals replaced by {@linkcode protectStrings} */
+function restoreStrings(text: string, strings: string[]) {
+  return text.replace(/"\u0000(\d+)"/g, (_, index) => strings[Number(index)]);
+}
+
+/** Returns the index of the brace that closes the one at `start` */
+function findClosingBrace(text: string, start: number) {
+  let depth = 0;
+
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}') depth--;
+    if (depth === 0) return i;
+  }
+
+  return -1;
+}
+
+/**
+ * Splits a GraphQL document into fragments and a single query operation.
+ * String literals are kept as they are.
+ *
+ * @returns The parsed document or `null` if the document can't be batched
+ * (it has several operations, mutations, etc.)
+ */
+export function parseDocument(query: string): ParsedDocument | null {
+  const { text, strings } = protectStrings(query);
+  const parsed = parseProtectedDocument(text);
+
+  return (
+    parsed && {
+      fragments: new Map(
+        [...parsed.fragments].map(([name, fragment]) => [
+          name,
+          restoreStrings(fragment, strings),
+        ]),
+      ),
+      variableDefinitions: parsed.variableDefinitions,
+      selections: restoreStrings(parsed.selections, strings),
+    }
+  );
+}
+
+/** Like {@linkcode parseDocument}, for a document returned by {@linkcode protectStrings} */
+function parseProtectedDocument(text: string): ParsedDocument | null {
+  const fragments = new Map<string, string>();
+  let operation: { header: string; selections: string } | null = null;
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const open = text.indexOf('{', i);
+    const close = open === -1 ? -1 : findClosingBrace(text, open);
+    if (close === -1) return null;
+
+    const header = text.slice(i, open).trim();
+    const definition = text.slice(i, close + 1);
+    i = close + 1;
+
+    const fragmentName = /^fragment\s+(\w+)/.exec(header)?.[1];
+
+    if (fragmentName) {
+      fragments.set(fragmentName, definition);
+    } else if (!operation && (header === '' || header.startsWith('query'))) {
+      operation = { header, selections: text.slice(open + 1, close) };
+    } else {
+      return null;
+    }
+  }
+
+  if (!operation) return null;
+
+  const variableDefinitions = [
+    ...operation.header.matchAll(/\$(\w+)\s*:\s*([^,)$]+)/g),
+  ].map(([, name, type]) => ({ name, type: type.trim() }));
+
+  return { fragments, variableDefinitions, selections: operation.selections };
+}
+
+/**
+ * Adds the `prefix` to the alias of every root field in `selections`,
+ * creating an alias if the field doesn't have one.
+ */
+function aliasRootFields(selections: string, prefix: string) {
+  let result = '';
+  let depth = 0;
+  let i = 0;
+
+  while (i < selections.length) {
+    const c = selections[i];
+
+    if (c === '{' || c === '(') depth++;
+    if (c === '}' || c === ')') depth--;
+
+    const name = depth === 0 ? /^[A-Za-z_]\w*/.exec(selections.slice(i)) : null;
+
+    if (!name) {
+      result += c;
+      i++;
+      continue;
+    }
+
+    // Identifiers after ":" (aliased field), "@" (directive) or "..." (spread) are not new fields
+    const previous = result.trimEnd().at(-1);
+    const isNewField = previous !== ':' && previous !== '@' && previous !== '.';
+    const isAlias = /^\s*:/.test(selections.slice(i + name[0].length));
+
+    if (isNewField && isAlias) {
+      result += prefix + name[0];
+    } else if (isNewField) {
+      result += `${prefix}${name[0]}: ${name[0]}`;
+    } else {
+      result += name[0];
+    }
+    i += name[0].length;
+  }
+
+  return result;
+}
+
+/** Prefix added to variables and root fields of the request in position `index` */
+function batchPrefix(index: number) {
+  return `b${index}_`;
+}
+
+/**
+ * Combines several requests into a single one. Root fields and variables of
+ * each request are prefixed to avoid collisions.
+ *
+ * @returns The combined request or `null` if the requests can't be combined
+ */
+export function mergeRequests(
+  requests: GraphQLRequest[],
+): GraphQLRequest | null {
+  const fragments = new Map<string, string>();
+  const variableDefinitions: string[] = [];
+  const selections: string[] = [];
+  const variables: Record<string, any> = {};
+
+  for (const [index, request] of requests.entries()) {
+    const { text, strings } = protectStrings(request.query);
+    const parsed = parseProtectedDocument(text);
+    if (!parsed) return null;
+
+    for (const [name, protectedFragment] of parsed.fragments) {
+      const fragment = restoreStrings(protectedFragment, strings);
+
+      // Two different fragments with the same name can't be in the same document
+      if (fragments.has(name) && fragments.get(name) !== fragment) return null;
+      fragments.set(name, fragment);
+    }
+
+    const prefix = batchPrefix(index);
+
+    for (const { name, type } of parsed.variableDefinitions) {
+      variableDefinitions.push(`$${prefix}${name}: ${type}`);
+      variables[prefix + name] = request.variables?.[name];
+    }
+
+    const selection = aliasRootFields(parsed.selections, prefix).replace(
+      /\$(\w+)/g,
+      `$${prefix}$1`,
+    );
+    selections.push(restoreStrings(selection, strings));
+  }
+
+  const args =
+    variableDefinitions.length > 0 ? `(${variableDefinitions.join(', ')})` : '';
+
+  return {
+    query: `
+${[...fragments.values()].join('\n')}
+query Batch${args} {
+${selections.join('\n')}
+}`,
+    variables,
+  };
+}
+
+/**
+ * Splits the `data` of a combined request into the data of each request.
+ * The type prefixes of the fields are removed with {@linkcode removeTypePrefix}
+ */
+export function splitResponse(
+  data: Record<string, unknown> | null | undefined,
+  count: number,
+): Record<string, unknown>[] {
+  return Array.from({ length: count }, (_, index) => {
+    const prefix = batchPrefix(index);
+    const result: Record<string, unknown> = {};
+
+    for (const key in data) {
+      if (key.startsWith(prefix)) {
+        result[key.slice(prefix.length)] = removeTypePrefix(data[key]);
+      }
+    }
+
+    return result;
+  });
+}
+
+type PendingRequest = GraphQLRequest & {
+  resolve: (data: any) => void;
+  reject: (err: unknown) => void;
+};
+
+/**
+ * Collects the requests issued in the same tick of the event loop and sends
+ * them as a single request.
+ */
+export class RequestBatcher {
+  /** Pending requests grouped by preview token */
+  private queue = new Map<string | undefined, PendingRequest[]>();
+  private scheduled = false;
+
+  constructor(
+    private send: (
+      query: string,
+      variables: any,
+      previewToken?: string,
+    ) => Promise<any>,
+    private maxBatchSize: number,
+  ) {}
+
+  /** Adds a request to the next batch */
+  request(query: string, variables: any, previewToken?: string) {
+    return new Promise<any>((resolve, reject) => {
+      const pending = this.queue.get(previewToken) ?? [];
+      pending.push({ query, variables, resolve, reject });
+      this.queue.set(previewToken, pending);
+
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setTimeout(() => this.flush(), 0);
+      }
+    });
+  }
+
+  private flush() {
+    const queue = this.queue;
+    this.queue = new Map();
+    this.scheduled = false;
+
+    for (const [previewToken, pending] of queue) {
+      for (let i = 0; i < pending.length; i += this.maxBatchSize) {
+        this.sendBatch(pending.slice(i, i + this.maxBatchSize), previewToken);
+      }
+    }
+  }
+
+  /** Sends a single request without batching */
+  private sendOne(request: PendingRequest, previewToken?: string) {
+    this.send(request.query, request.variables, previewToken).then(
+      request.resolve,
+      request.reject,
+    );
+  }
+
+  private async sendBatch(batch: PendingRequest[], previewToken?: string) {
+    const merged = batch.length > 1 ? mergeRequests(batch) : null;
+
+    if (!merged) {
+      batch.forEach((request) => this.sendOne(request, previewToken));
+      return;
+    }
+
+    try {
+      const data = await this.send(
+        merged.query,
+        merged.variables,
+        previewToken,
+      );
+      const results = splitResponse(data, batch.length);
+      batch.forEach((request, i) => request.resolve(results[i]));
+    } catch (err) {
+      // A GraphQL error can be caused by one of the requests: send them
+      // separately so each one gets its own result or error. Other errors
+      // (network, timeouts, HTTP) would fail again for every request
+      if (err instanceof GraphContentResponseError) {
+        batch.forEach((request) => this.sendOne(request, previewToken));
+      } else {
+        batch.forEach((request) => request.reject(err));
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * This module contains the cache used by `GraphClient` to store responses
+ * from Graph and the built-in in-memory cache adapter.
+ */
+import { hashQuery } from './persistedQueries.js';
+
+/** A response from Graph stored in the cache */
+export type GraphCacheEntry = {
+  /** The `data` in the response */
+  data: any;
+
+  /** Timestamp (in milliseconds) until which the entry is fresh */
+  expires: number;
+
+  /** Timestamp (in milliseconds) until which the entry can be used while it is revalidated */
+  staleUntil: number;
+};
+
+/**
+ * Storage for cached responses. Implement this interface to use your own
+ * storage (for example Redis)
+ */
+export interface GraphCacheAdapter {
+  get(
+    key: string,
+  ): GraphCacheEntry | undefined | Promise<GraphCacheEntry | undefined>;
+  set(key: string, entry: GraphCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/** Options for caching responses from Graph */
+export type GraphCacheOptions = {
+  /** Where to store the responses. Default: a {@linkcode MemoryCache} */
+  adapter?: GraphCacheAdapter;
+
+  /** Time in milliseconds a response is considered fresh. Default: `60000` */
+  ttl?: number;
+
+  /**
+   * Time in milliseconds after `ttl` during which an expired response is
+   * returned while a fresh one is fetched in the background. Default: `0`
+   */
+  staleWhileRevalidate?: number;
+};
+
+/** In-memory cache that removes the least recently used entries when full */
+export class MemoryCache implements GraphCacheAdapter {
+  private entries = new Map<string, GraphCacheEntry>();
+  private maxEntries: number;
+
+  /** @param options.maxEntries - Maximum number of entries. Default: `500` */
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      // Move the entry to the end (most recently used)
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  set(key: string, entry: GraphCacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Map keeps insertion order: the first key is the least recently used
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  /** Removes all the entries */
+  clear() {
+    this.entries.clear();
+  }
+}
+
+/** A request to Graph, used to create its cache key */
+export type CacheKeyInput = {
+  /** URL of the Graph instance */
+  graphUrl: string;
+
+  /** Single key sent in the `auth` parameter */
+  key: string;
+
+  /** Preview token sent in the `Authorization` header, if any */
+  previewToken?: string;
+
+  query: string;
+  variables: unknown;
+};
+
+/**
+ * Returns the cache key for a request. Requests to different Graph instances
+ * or with different credentials get different keys, so clients can share an
+ * adapter
+ */
+export function createCacheKey(input: CacheKeyInput) {
+  const { graphUrl, key, previewToken, query, variables } = input;
+
+  return hashQuery(
+    JSON.stringify({
+      graphUrl,
+      key,
+      previewToken: previewToken ?? null,
+      query,
+      variables,
+    }),
+  );
+}
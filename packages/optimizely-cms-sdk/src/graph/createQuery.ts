@@ -22,6 +22,9 @@ import { GraphMissingContentTypeError } from './error.js';
 
 let allContentTypes: AnyContentType[] = [];
 
+/** Base types of the content that can be fetched by path */
+export const ROUTABLE_BASE_TYPES: string[] = ['_page', '_experience'];
+
 /**
  * Retrieves and caches all content type definitions.
  * Avoids repeated calls to the content registry.
@@ -62,6 +65,7 @@ function allPropertiesAreDisabled(ct: AnyContentType): boolean {
  * @param property - The property definition from the schema.
  * @param rootName - The root content type name used for tracing and warning messages.
  * @param visited - A set of already visited fragments to prevent infinite recursion.
+ * @param select - Paths to select inside the property. Empty to select everything.
  * @returns An object containing GraphQL field strings and extra dependent fragments.
  */
 function convertProperty(
@@ -71,6 +75,7 @@ function convertProperty(
   suffix: string,
   visited: Set<string>,
   damEnabled: boolean = false,
+  select: string[] = [],
 ): {
   fields: string[];
   extraFragments: string[];
@@ -83,6 +88,7 @@ function convertProperty(
     suffix,
     visited,
     damEnabled,
+    select,
   );
 
   // logs warnings if the fragment generation causes potential issues
@@ -101,6 +107,7 @@ function convertProperty(
  * @param property - The property definition from the schema.
  * @param rootName - The root content type name for recursive fragment generation.
  * @param visited - A set of already visited fragments to prevent infinite recursion.
+ * @param select - Paths to select inside the property. Empty to select everything.
  * @returns An object containing GraphQL field strings and extra dependent fragments.
  */
 function convertPropertyField(
@@ -110,6 +117,7 @@ function convertPropertyField(
   suffix: string,
   visited: Set<string>,
   damEnabled: boolean = false,
+  select: string[] = [],
 ): {
   fields: string[];
   extraFragments: string[];
@@ -121,7 +129,20 @@ function convertPropertyField(
   let includesDamAssetsFragments = false;
   const nameInFragment = `${rootName}${suffix}__${name}:${name}`;
 
-  if (property.type === 'component') {
+  if (property.type === 'component' && select.length > 0) {
+    // The fields are inlined since the named fragment includes all properties
+    const key = property.contentType.key;
+    const f = createPropertiesFields(
+      key,
+      'Property',
+      visited,
+      damEnabled,
+      select,
+    );
+    extraFragments.push(...f.extraFragments);
+    includesDamAssetsFragments = f.includesDamAssetsFragments;
+    fields.push(`${nameInFragment} { __typename ${f.fields.join(' ')} }`);
+  } else if (property.type === 'component') {
     const key = property.contentType.key;
     const fragmentName = `${key}Property`;
     extraFragments.push(
@@ -170,6 +191,7 @@ function convertPropertyField(
       suffix,
       visited,
       damEnabled,
+      select,
     );
     fields.push(...f.fields);
     extraFragments.push(...f.extraFragments);
@@ -223,10 +245,88 @@ function createExperienceFragments(
   return [...fixedFragments, ...extraFragments, componentFragment];
 }
 
+/**
+ * Groups the selected paths by their first segment.
+ * For example `['title', 'hero.heading']` -> `{ title: [], hero: ['heading'] }`.
+ * An empty list means that the whole property is selected.
+ */
+function groupSelectedPaths(select: string[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+
+  for (const path of select) {
+    const [head, ...rest] = path.split('.');
+    const group = groups.get(head);
+
+    if (rest.length === 0) {
+      groups.set(head, []);
+    } else if (!group) {
+      groups.set(head, [rest.join('.')]);
+    } else if (group.length > 0) {
+      group.push(rest.join('.'));
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Converts the properties of a user-defined content type into GraphQL fields.
+ * @param contentTypeName Name/key of the content type.
+ * @param select Paths of the properties to include. Empty to include all of them.
+ * @returns The fields and the fragments they depend on.
+ */
+function createPropertiesFields(
+  contentTypeName: string,
+  suffix: string,
+  visited: Set<string>,
+  damEnabled: boolean,
+  select: string[],
+) {
+  const ct = getContentType(contentTypeName);
+  if (!ct) {
+    throw new GraphMissingContentTypeError(contentTypeName);
+  }
+
+  const selected = select.length > 0 ? groupSelectedPaths(select) : null;
+  const fields: string[] = [];
+  const extraFragments: string[] = [];
+  let includesDamAssetsFragments = false;
+
+  for (const [propKey, prop] of Object.entries(ct.properties ?? {})) {
+    // Skip properties with indexingType "disabled" or not selected
+    if (
+      prop.indexingType === 'disabled' ||
+      (selected && !selected.has(propKey))
+    ) {
+      continue;
+    }
+    const {
+      fields: f,
+      extraFragments: e,
+      includesDamAssetsFragments: propHasRef,
+    } = convertProperty(
+      propKey,
+      prop,
+      contentTypeName,
+      suffix,
+      visited,
+      damEnabled,
+      selected?.get(propKey),
+    );
+    fields.push(...f);
+    extraFragments.push(...e);
+    includesDamAssetsFragments = includesDamAssetsFragments || propHasRef;
+  }
+
+  return { fields, extraFragments, includesDamAssetsFragments };
+}
+
 /**
  * Builds a GraphQL fragment for the requested content-type **and** returns every nested fragment it depends on.
  * @param contentTypeName Name/key of the content-type to expand.
  * @param visited Set of fragment names already on the stack.
+ * @param select Paths of the properties to include, for example
+ *   `['title', 'hero.heading']`. Empty to include all of them.
  * @returns Array of fragment strings.
  */
 export function createFragment(
@@ -235,6 +335,7 @@ export function createFragment(
   suffix: string = '',
   includeBaseFragments: boolean = true,
   damEnabled: boolean = false,
+  select: string[] = [],
 ): string[] {
   const fragmentName = `${contentTypeName}${suffix}`;
   if (visited.has(fragmentName)) return []; // cyclic ref guard
@@ -259,27 +360,20 @@ export function createFragment(
     }
 
     // Gather fields for every property
-    for (const [propKey, prop] of Object.entries(ct.properties ?? {})) {
-      // Skip properties with indexingType "disabled"
-      if (prop.indexingType === 'disabled') {
-        continue;
-      }
-      const {
-        fields: f,
-        extraFragments: e,
-        includesDamAssetsFragments: propHasRef,
-      } = convertProperty(
-        propKey,
-        prop,
-        contentTypeName,
-        suffix,
-        visited,
-        damEnabled,
-      );
-      fields.push(...f);
-      extraFragments.push(...e);
-      includesDamAssetsFragments = includesDamAssetsFragments || propHasRef;
-    }
+    const {
+      fields: f,
+      extraFragments: e,
+      includesDamAssetsFragments: propHasRef,
+    } = createPropertiesFields(
+      contentTypeName,
+      suffix,
+      visited,
+      damEnabled,
+      select,
+    );
+    fields.push(...f);
+    extraFragments.push(...e);
+    includesDamAssetsFragments = propHasRef;
 
     // Add fragments for the base type of the user-defined content type
     if (includeBaseFragments) {
@@ -311,18 +405,59 @@ export function createFragment(
   ];
 }
 
+/**
+ * Builds the fragments for one or more content types and the fragment spreads
+ * to include them in a selection set.
+ * @param contentType - Key or list of keys of the content types.
+ * @param select - Paths of the properties to include. Empty to include all of them.
+ * @returns The fragment strings and the spreads (e.g. `...ct1 ...ct2`).
+ */
+function createContentTypesFragments(
+  contentType: string | string[],
+  damEnabled: boolean,
+  select: string[],
+) {
+  if (typeof contentType === 'string') {
+    const fragment = createFragment(
+      contentType,
+      new Set(),
+      '',
+      true,
+      damEnabled,
+      select,
+    );
+    const fragmentName = fragment.length > 0 ? '...' + contentType : '';
+    return { fragment, fragmentName };
+  }
+
+  // Share the `visited` set so fragments are generated only once
+  const visited = new Set<string>();
+  const fragment = contentType.flatMap((ct) =>
+    createFragment(ct, visited, '', true, damEnabled, select),
+  );
+  const fragmentName = contentType.map((ct) => '...' + ct).join(' ');
+
+  return { fragment: [...new Set(fragment)], fragmentName };
+}
+
 /**
  * Generates a complete GraphQL query for fetching one item.
  *
- * @param contentType - The key of the content type to query.
+ * @param contentType - The key of the content type to query. Pass a list of
+ *   keys if the type of the item is not known beforehand.
+ * @param select - Paths of the properties to include. Empty to include all of them.
  * @returns A string representing the GraphQL query.
  */
 export function createSingleContentQuery(
-  contentType: string,
+  contentType: string | string[],
   damEnabled: boolean = false,
+  select: string[] = [],
 ) {
-  const fragment = createFragment(contentType, new Set(), '', true, damEnabled);
-  const fragmentName = fragment.length > 0 ? '...' + contentType : '';
+  const { fragment, fragmentName } = createContentTypesFragments(
+    contentType,
+    damEnabled,
+    select,
+  );
 
   return `
 ${fragment.join('\n')}
@@ -339,39 +474,150 @@ query GetContent($where: _ContentWhereInput) {
 
 /**
  * Generates a complete GraphQL query for fetching multiple items.
- * All items must have the same content type
  *
- * @param contentType - The key of the content type to query.
+ * @param contentType - The key of the content type to query. Pass a list of
+ *   keys to fetch items of any of those types.
+ * @param select - Paths of the properties to include. Empty to include all of them.
  * @returns A string representing the GraphQL query.
  */
 export function createMultipleContentQuery(
-  contentType: string,
+  contentType: string | string[],
   damEnabled: boolean = false,
+  select: string[] = [],
 ) {
-  const fragment = createFragment(contentType, new Set(), '', true, damEnabled);
-  const fragmentName = fragment.length > 0 ? '...' + contentType : '';
+  const { fragment, fragmentName } = createContentTypesFragments(
+    contentType,
+    damEnabled,
+    select,
+  );
 
   return `
 ${fragment.join('\n')}
-query ListContent($where: _ContentWhereInput) {
-  _Content(where: $where) {
+query ListContent($where: _ContentWhereInput, $locale: [Locales], $variation: VariationInput, $limit: Int, $cursor: String) {
+  _Content(where: $where, locale: $locale, variation: $variation, limit: $limit, cursor: $cursor) {
     items {
-
+      __typename
       ${fragmentName}
     }
+    cursor
+  }
+}
+  `;
+}
+
+/**
+ * Generates a GraphQL query for a full-text search in the given content types.
+ * Items are ranked by relevance.
+ *
+ * @param contentType - The keys of the content types that can be returned.
+ *   Pass an empty list to fetch only the metadata of the items.
+ * @param options.facets - Fields of `_metadata` to get facet counts for
+ * @param options.highlight - Tokens that surround the matched terms in the
+ *   highlighted snippets. Pass `false` to disable highlighting
+ * @returns A string representing the GraphQL query.
+ */
+export function createSearchQuery(
+  contentType: string[],
+  damEnabled: boolean = false,
+  options: {
+    facets?: string[];
+    highlight?: { startToken: string; endToken: string } | false;
+  } = {},
+) {
+  const { fragment, fragmentName } = createContentTypesFragments(
+    contentType,
+    damEnabled,
+    [],
+  );
+  const { fields, extraFragments } = buildBaseTypeFragments();
+  const fragments = [...new Set([...extraFragments, ...fragment])];
+
+  const highlight = options.highlight
+    ? `_fulltext(highlight: { enabled: true, startToken: ${JSON.stringify(
+        options.highlight.startToken,
+      )}, endToken: ${JSON.stringify(options.highlight.endToken)} })`
+    : '';
+  const facets =
+    options.facets && options.facets.length > 0
+      ? `facets { _metadata { ${options.facets
+          .map((f) => `${f} { name count }`)
+          .join(' ')} } }`
+      : '';
+
+  return `
+${fragments.join('\n')}
+query SearchContent($where: _ContentWhereInput, $locale: [Locales], $limit: Int, $cursor: String) {
+  _Content(where: $where, locale: $locale, limit: $limit, cursor: $cursor, orderBy: { _ranking: RELEVANCE }) {
+    items {
+      __typename
+      _score
+      ${highlight}
+      ${fields.join(' ')} ${fragmentName}
+    }
+    ${facets}
+    total
+    cursor
   }
 }
   `;
 }
 
+/**
+ * Generates a complete GraphQL query for listing items of a given content type
+ * with filters, sorting and pagination.
+ *
+ * @param contentType - The key of the content type to query.
+ * @param select - Paths of the properties to include. Empty to include all of them.
+ * @returns A string representing the GraphQL query.
+ */
+export function createContentTypeQuery(
+  contentType: string,
+  damEnabled: boolean = false,
+  select: string[] = [],
+) {
+  const fragment = createFragment(
+    contentType,
+    new Set(),
+    '',
+    true,
+    damEnabled,
+    select,
+  );
+
+  return `
+${fragment.join('\n')}
+query ListContentType($where: ${contentType}WhereInput, $orderBy: ${contentType}OrderByInput, $locale: [Locales], $limit: Int, $skip: Int, $cursor: String) {
+  ${contentType}(where: $where, orderBy: $orderBy, locale: $locale, limit: $limit, skip: $skip, cursor: $cursor) {
+    items {
+      ...${contentType}
+    }
+    total
+    cursor
+  }
+}
+  `;
+}
+
+export type ContentTypeResponse<T> = {
+  [contentType: string]: {
+    items: T[];
+    total: number;
+    cursor?: string | null;
+  };
+};
+
 export type ItemsResponse<T> = {
   _Content: {
     items: ({
       __typename: string;
       _metadata: {
+        key: string;
+        locale: string;
+        fallbackForLocale?: string;
         variation: string;
       };
     } & T)[];
+    cursor?: string | null;
   };
 };
 
@@ -17,6 +17,20 @@ export class OptimizelyGraphError extends Error {
   }
 }
 
+/** Thrown when a request to Graph takes longer than the configured timeout */
+export class GraphTimeoutError extends OptimizelyGraphError {
+  /** Timeout in milliseconds */
+  timeout: number;
+
+  constructor(timeout: number) {
+    super(
+      `The request to Graph did not finish in ${timeout} ms. Try again later or increase the timeout.`
+    );
+    this.name = 'GraphTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
 // Note: maybe we want to create an abstraction called `GraphCreateQueryError`
 // to group all errors that happen before the request?
 
@@ -0,0 +1,45 @@
+/**
+ * Cache adapter that stores responses from Graph in the file system.
+ *
+ * This module uses Node.js APIs and is exported separately from the main entry point:
+ *
+ * ```ts
+ * import { FileSystemCache } from '@optimizely/cms-sdk/fileSystemCache';
+ * ```
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { GraphCacheAdapter, GraphCacheEntry } from './cache.js';
+
+export class FileSystemCache implements GraphCacheAdapter {
+  private directory: string;
+
+  /** @param options.directory - Directory where the responses are stored. Default: `.optimizely-cache` in the current directory */
+  constructor(options: { directory?: string } = {}) {
+    this.directory =
+      options.directory ?? path.join(process.cwd(), '.optimizely-cache');
+  }
+
+  /** Keys are hex-encoded hashes, so they are safe to use as file names */
+  private filePath(key: string) {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string): Promise<GraphCacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.filePath(key), 'utf-8'));
+    } catch {
+      // The file doesn't exist or it's corrupted
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: GraphCacheEntry) {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string) {
+    await rm(this.filePath(key), { force: true });
+  }
+}
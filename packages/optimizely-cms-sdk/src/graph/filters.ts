@@ -5,6 +5,17 @@
  *
  * This is used internally in the SDK
  */
+import type { ContentProps } from '../infer.js';
+import type { AnyContentType } from '../model/contentTypes.js';
+import type {
+  AnyProperty,
+  ArrayProperty,
+  BooleanProperty,
+  DateTimeProperty,
+  FloatProperty,
+  IntegerProperty,
+  StringProperty,
+} from '../model/properties.js';
 
 /** Returns two versions of the same path. One with trailing slash and one without it */
 function normalizePath(path: string) {
@@ -81,29 +92,84 @@ export function previewFilter(params: {
   };
 }
 
+/**
+ * Creates a {@linkcode ContentInput} object that filters content by key and,
+ * optionally, version and status.
+ *
+ * @param key - The unique key identifying the content. Pass an array to match any of the keys.
+ * @param options.version - The version of the content.
+ * @param options.status - The status of the content (for example `Published` or `Draft`).
+ */
+export function keyFilter(
+  key: string | string[],
+  options: { version?: string; status?: string } = {},
+): ContentInput {
+  return {
+    where: {
+      _metadata: {
+        key: Array.isArray(key) ? { in: key } : { eq: key },
+        ...(options.version && { version: { eq: options.version } }),
+        ...(options.status && { status: { eq: options.status } }),
+      },
+    },
+  };
+}
+
 export function localeFilter(locale?: string[]): ContentInput {
   return {
     locale,
   };
 }
 
+/**
+ * Creates a {@linkcode ContentInput} object that selects which variations of
+ * the content are returned.
+ *
+ * @param variation - The variations to include. If omitted, Graph returns only the original content.
+ */
+export function variationFilter(variation?: VariationInput): ContentInput {
+  return {
+    variation,
+  };
+}
+
 /**
  * Arguments for querying content via the Graph API.
  */
 export type ContentInput = {
   locale?: string[];
   where?: ContentWhereInput;
+  variation?: VariationInput;
+  limit?: number;
 };
 
-type ContentWhereInput = {
+/** Selects content variations (for example, variations used in A/B experiments) */
+export type VariationInput = {
+  /**
+   * Which variations to include:
+   * - `ALL`: all variations
+   * - `SOME`: only the variations listed in `value`
+   * - `NONE`: no variations (only the original content)
+   */
+  include: 'ALL' | 'SOME' | 'NONE';
+
+  /** Name of the variations to include. Used when `include` is `SOME` */
+  value?: string[];
+
+  /** Set to `true` to also include the original content */
+  includeOriginal?: boolean;
+};
+
+export type ContentWhereInput = {
   _and?: ContentWhereInput[];
   _or?: ContentWhereInput[];
+  _not?: ContentWhereInput[];
   _fulltext?: StringFilterInput;
   _modified?: DateFilterInput;
   _metadata?: IContentMetadataWhereInput;
 };
 
-type StringFilterInput = ScalarFilterInput<string> & {
+export type StringFilterInput = ScalarFilterInput<string> & {
   like?: string;
   startsWith?: string;
   endsWith?: string;
@@ -112,10 +178,10 @@ type StringFilterInput = ScalarFilterInput<string> & {
   match?: string;
   contains?: string;
   synonyms?: ('ONE' | 'TWO')[];
-  fuzzly?: boolean;
+  fuzzy?: boolean;
 };
 
-type DateFilterInput = ScalarFilterInput<string> & {
+export type DateFilterInput = ScalarFilterInput<string> & {
   gt?: string;
   gte?: string;
   lt?: string;
@@ -127,7 +193,7 @@ type DateFilterInput = ScalarFilterInput<string> & {
   };
 };
 
-type IContentMetadataWhereInput = {
+export type IContentMetadataWhereInput = {
   key?: StringFilterInput;
   locale?: StringFilterInput;
   fallbackForLocale?: StringFilterInput;
@@ -144,7 +210,7 @@ type IContentMetadataWhereInput = {
   variation?: StringFilterInput;
 };
 
-type IntFilterInput = ScalarFilterInput<number> & {
+export type IntFilterInput = ScalarFilterInput<number> & {
   gt?: number;
   gte?: number;
   lt?: number;
@@ -157,6 +223,17 @@ type IntFilterInput = ScalarFilterInput<number> & {
   };
 };
 
+export type FloatFilterInput = ScalarFilterInput<number> & {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  in?: number[];
+  notIn?: number[];
+};
+
+export type BooleanFilterInput = ScalarFilterInput<boolean>;
+
 type ContentUrlInput<T> = {
   type?: T;
   default?: T;
@@ -172,3 +249,58 @@ type ScalarFilterInput<T> = {
   exist?: boolean;
   boost?: number;
 };
+
+/** Filter input for a single content type property. `never` if the property can't be filtered */
+// prettier-ignore
+type PropertyFilterInput<T extends AnyProperty> =
+    T extends ArrayProperty<infer E> ? PropertyFilterInput<E>
+  : T extends StringProperty ? StringFilterInput
+  : T extends DateTimeProperty ? DateFilterInput
+  : T extends IntegerProperty ? IntFilterInput
+  : T extends FloatProperty ? FloatFilterInput
+  : T extends BooleanProperty ? BooleanFilterInput
+  : never;
+
+/** Keys of the properties in `T` that are returned by Graph */
+type QueryableKeys<T extends AnyContentType> = T extends {
+  properties: Record<string, AnyProperty>;
+}
+  ? keyof T['properties'] & keyof ContentProps<T>
+  : never;
+
+/** Filters for the properties of the content type `T` */
+type PropertiesWhereInput<T extends AnyContentType> = T extends {
+  properties: Record<string, AnyProperty>;
+}
+  ? {
+      [K in QueryableKeys<T> as [PropertyFilterInput<T['properties'][K]>] extends [never]
+        ? never
+        : K]?: PropertyFilterInput<T['properties'][K]>;
+    }
+  : {};
+
+/**
+ * Filter for a specific content type. Includes the common filters
+ * (`_fulltext`, `_metadata`...) and filters for each property of `T`
+ */
+export type ContentTypeWhereInput<T extends AnyContentType> = {
+  _and?: ContentTypeWhereInput<T>[];
+  _or?: ContentTypeWhereInput<T>[];
+  _not?: ContentTypeWhereInput<T>[];
+  _fulltext?: StringFilterInput;
+  _modified?: DateFilterInput;
+  _metadata?: IContentMetadataWhereInput;
+} & PropertiesWhereInput<T>;
+
+export type OrderByDirection = 'ASC' | 'DESC';
+
+/** Sort order for a specific content type */
+export type ContentTypeOrderByInput<T extends AnyContentType> = {
+  _ranking?: 'RELEVANCE' | 'SEMANTIC' | 'BOOST_ONLY' | 'DOC';
+  _modified?: OrderByDirection;
+  _metadata?: {
+    [K in keyof IContentMetadataWhereInput]?: OrderByDirection;
+  };
+} & {
+  [K in QueryableKeys<T>]?: OrderByDirection;
+};
@@ -2,24 +2,182 @@ import {
   createSingleContentQuery,
   ItemsResponse,
   createMultipleContentQuery,
+  createSearchQuery,
+  ROUTABLE_BASE_TYPES,
 } from './createQuery.js';
 import {
   GraphContentResponseError,
   GraphHttpResponseError,
   GraphResponseError,
+  GraphTimeoutError,
   OptimizelyGraphError,
 } from './error.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  RetryOptions,
+  sleep,
+} from './retry.js';
 import {
   ContentInput as GraphVariables,
   pathFilter,
   previewFilter,
+  keyFilter,
   localeFilter,
+  variationFilter,
+  VariationInput,
+  ContentTypeWhereInput,
+  ContentTypeOrderByInput,
 } from './filters.js';
+import { ContentQueryBuilder, PaginateOptions } from './queryBuilder.js';
+import { hashQuery, isPersistedQueryNotFound } from './persistedQueries.js';
+import {
+  GET_CONTENT_METADATA_QUERY,
+  GET_CONTENT_METADATA_WITH_DAM_QUERY,
+  GET_CONTENT_TYPES_QUERY,
+  GET_DAM_ENABLED_QUERY,
+  GET_ITEMS_QUERY,
+  GET_PATH_QUERY,
+} from './queries.js';
+import { removeTypePrefix } from './removeTypePrefix.js';
+import { RequestBatcher } from './batch.js';
+import { MAX_PAGE_SIZE, requestAllContentItems } from './pagination.js';
+import {
+  getNavigationTree,
+  GraphGetNavigationTreeOptions,
+} from './navigation.js';
+import {
+  getRelated,
+  GraphGetRelatedOptions,
+  RelatedSource,
+} from './related.js';
+import {
+  createSearchFilter,
+  GraphSearchOptions,
+  SearchItem,
+  SearchResult,
+} from './search.js';
+import {
+  createCacheKey,
+  GraphCacheOptions,
+  MemoryCache,
+} from './cache.js';
+import type { AnyContentType } from '../model/contentTypes.js';
+import type {
+  ContentPath,
+  ContentResult,
+  SelectedContent,
+  SelectedProps,
+} from '../infer.js';
+import { getAllContentTypes } from '../model/contentTypeRegistry.js';
+
+/** Options passed to `fetch`. It may include framework-specific options like Next.js `next` */
+export type GraphRequestInit = RequestInit & { [key: string]: unknown };
+
+/** Request sent to Graph, passed to the hooks in {@linkcode GraphOptions} */
+export type GraphRequestContext = {
+  /** URL of the request */
+  url: URL;
+
+  /** Options passed to `fetch`. Hooks can modify it (for example, to add headers) */
+  init: GraphRequestInit;
+
+  /** GraphQL query */
+  query: string;
+
+  /** GraphQL variables */
+  variables: any;
+};
+
+/** Options for a single request */
+export type GraphRequestOptions = {
+  /** Signal to cancel the request */
+  signal?: AbortSignal;
+
+  /** Timeout in milliseconds. Overrides the `timeout` in the client options */
+  timeout?: number;
+
+  /** Set to `false` to skip the cache (if enabled in the client) for this request */
+  cache?: boolean;
+};
 
 /** Options for Graph */
-type GraphOptions = {
+export type GraphOptions = {
   /** Graph instance URL. `https://cg.optimizely.com/content/v2` */
   graphUrl?: string;
+
+  /** Function used to send requests. Default: the global `fetch` */
+  fetch?: typeof fetch;
+
+  /**
+   * Retries for failed requests (network errors and HTTP 429, 502, 503 and 504).
+   * The delay between retries grows exponentially unless Graph responds with
+   * a `Retry-After` header. Set to `false` to disable retries
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Cache for the responses from Graph. Requests with a preview token are never cached.
+   * Set to `true` to use an in-memory cache with the default options
+   */
+  cache?: GraphCacheOptions | boolean;
+
+  /**
+   * Set to `true` to combine the requests issued in the same tick of the
+   * event loop into a single request to Graph. Requests with a `signal` or
+   * `timeout` are not batched
+   */
+  batch?: boolean | { maxBatchSize?: number };
+
+  /**
+   * Maximum time in milliseconds to wait for each response from Graph.
+   * If exceeded, the request fails with a `GraphTimeoutError`
+   */
+  timeout?: number;
+
+  /**
+   * Called before sending each request. Modify `context.init` or return a new
+   * context to change the request (for example, to add tracing headers or
+   * Next.js `next: { revalidate, tags }` options)
+   */
+  onRequest?: (
+    context: GraphRequestContext,
+  ) => GraphRequestContext | void | Promise<GraphRequestContext | void>;
+
+  /**
+   * Called after receiving each response, before the SDK reads it.
+   * Return a `Response` to replace the original one
+   */
+  onResponse?: (
+    response: Response,
+    context: GraphRequestContext,
+  ) => Response | void | Promise<Response | void>;
+
+  /** Called when a request fails, before the error is thrown */
+  onError?: (
+    error: unknown,
+    context: { query: string; variables: any },
+  ) => void | Promise<void>;
+
+  /**
+   * Set to `true` to send persisted queries: the client sends the SHA-256 hash
+   * of the query instead of the full query. If Graph doesn't recognize the hash,
+   * the client sends the full query.
+   *
+   * Use the `config export-queries` command in the CLI to get the queries for registration.
+   */
+  persistedQueries?: boolean;
+
+  /**
+   * Set to `true` to fetch content with a single request to Graph.
+   *
+   * By default, methods like `getContentByPath` send two requests: one to get
+   * the content type and another one to get the content. In single request mode,
+   * the query includes fragments for all the content types in the registry
+   * (page and experience types for `getContentByPath`) instead.
+   * This reduces latency but creates larger queries.
+   */
+  singleRequest?: boolean;
 };
 
 export type PreviewParams = {
@@ -32,6 +190,87 @@ export type PreviewParams = {
 
 export type GraphGetContentOptions = {
   host?: string;
+
+  /**
+   * Locale of the content to fetch. If omitted, content in all locales is returned.
+   * The locale that served each item is available in `_metadata.locale`.
+   */
+  locale?: string;
+
+  /**
+   * Locales to try, in order, when there is no content in `locale`.
+   * Ignored if `locale` is not set.
+   */
+  fallbackLocales?: string[];
+
+  /**
+   * Variations to fetch. If omitted, only the original content is returned.
+   *
+   * @example
+   * ```ts
+   * client.getContentByPath(path, {
+   *   variation: { include: 'SOME', value: ['var1'], fallbackToOriginal: true },
+   * });
+   * ```
+   */
+  variation?: GraphVariationOptions;
+};
+
+export type GraphVariationOptions = VariationInput & {
+  /**
+   * Set to `true` to return the original content when none of the
+   * requested variations exist.
+   */
+  fallbackToOriginal?: boolean;
+};
+
+/** Option to pass the content types of the content to fetch */
+export type GraphContentTypeOptions<
+  T extends AnyContentType,
+  S extends string = never,
+> = {
+  /**
+   * Content type (or list of content types) of the content. They must be
+   * registered. The content is fetched with a single request and typed as a
+   * union of the given types, which can be narrowed by `__typename`
+   */
+  contentType: T | T[];
+
+  /**
+   * Fetch only the given properties, for example `['title', 'hero.image']`.
+   * Use dots to select properties inside component properties. The result
+   * is typed accordingly. If omitted, all properties are fetched
+   */
+  select?: S[];
+};
+
+export type GraphGetContentByKeyOptions = {
+  /** Locale of the content to fetch. If omitted, content in all locales is returned */
+  locale?: string;
+
+  /** Version of the content. If omitted, all versions matching `status` are returned */
+  version?: string;
+
+  /**
+   * Status of the content. Default: `Published`.
+   * Fetching other statuses requires a `previewToken`
+   */
+  status?: 'Published' | 'Draft';
+
+  /** Token used to fetch non-published content */
+  previewToken?: string;
+};
+
+export type GraphPaginateOptions<
+  T extends AnyContentType,
+  S extends string = never,
+> = PaginateOptions & {
+  where?: ContentTypeWhereInput<T>;
+  orderBy?: ContentTypeOrderByInput<T>;
+  locale?: string | string[];
+
+  /** Fetch only the given properties. See {@linkcode ContentQueryBuilder.select} */
+  select?: S[];
 };
 
 export type GraphGetLinksOptions = {
@@ -39,86 +278,6 @@ export type GraphGetLinksOptions = {
   locales?: string[];
 };
 
-const GET_CONTENT_METADATA_QUERY = `
-query GetContentMetadata($where: _ContentWhereInput) {
-  _Content(where: $where) {
-    item {
-      _metadata {
-        types
-      }
-    }
-  }
-  # Check if "cmp_Asset" type exists which indicates that DAM is enabled
-  damAssetType: __type(name: "cmp_Asset") {
-    __typename
-  }
-}
-`;
-
-const GET_PATH_QUERY = `
-query GetPath($where: _ContentWhereInput, $locale: [Locales]) {
-  _Content(where: $where, locale: $locale) {
-    item {
-      _id
-      _metadata {
-        ...on InstanceMetadata {
-          path
-        }
-      }
-      _link(type: PATH) {
-        _Page {
-          items {
-            _metadata {
-              key
-              sortOrder
-              displayName
-              locale
-              types
-              url {
-                base
-                hierarchical
-                default
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-}`;
-
-const GET_ITEMS_QUERY = `
-query GetPath($where: _ContentWhereInput, $locale: [Locales]) {
-  _Content(where: $where, locale: $locale) {
-    item {
-      _id
-      _metadata {
-        ...on InstanceMetadata {
-          path
-        }
-      }
-      _link(type: ITEMS) {
-        _Page {
-          items {
-            _metadata {
-              key
-              sortOrder
-              displayName
-              locale
-              types
-              url {
-                base
-                hierarchical
-                default
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-}`;
-
 type GetLinksResponse = {
   _Content: {
     item: {
@@ -149,51 +308,117 @@ type GetLinksResponse = {
 };
 
 /**
- * Removes GraphQL alias prefixes from object keys in the response data.
- *
- * For objects with a `__typename` property, removes the `{typename}__` prefix
- * from all field names (e.g., `ContentType__p1` becomes `p1`).
- * This reverses the aliasing applied in query generation to prevent field
- * name collisions in GraphQL fragments.
- *
- * Traverses all keys in an object recursively, processing arrays and nested objects.
- *
- * @param obj - The object to process (typically a GraphQL response)
- * @returns A new object with prefixes removed, or the original value for primitives
- *
- * Note: this function is exported only on this level for testing purposes.
- * It should not be exported in the user-facing API
+ * Converts the SDK variation options into the `variation` argument sent to Graph.
+ * When `fallbackToOriginal` is set, the original content is requested as well
+ * so it can be used if no variation matches.
  */
-export function removeTypePrefix(obj: any): any {
-  if (Array.isArray(obj)) {
-    return obj.map((e) => removeTypePrefix(e));
+function toVariationInput(
+  options?: GraphVariationOptions,
+): VariationInput | undefined {
+  if (!options) {
+    return undefined;
   }
 
-  if (typeof obj === 'object' && obj !== null) {
-    const obj2: Record<string, any> = {};
-    if ('__typename' in obj && typeof obj.__typename === 'string') {
-      // Object has a GraphQL type, check for and remove aliased field prefixes
-      const prefix = obj.__typename + '__';
-
-      // Copy all properties, remove the typename from prefix
-      for (const k in obj) {
-        if (k.startsWith(prefix)) {
-          obj2[k.slice(prefix.length)] = removeTypePrefix(obj[k]);
-        } else {
-          obj2[k] = removeTypePrefix(obj[k]);
-        }
-      }
-    } else {
-      // Traverse recursively
-      for (const k in obj) {
-        obj2[k] = removeTypePrefix(obj[k]);
-      }
+  const { fallbackToOriginal, ...variation } = options;
+
+  if (fallbackToOriginal) {
+    return { ...variation, includeOriginal: true };
+  }
+
+  return variation;
+}
+
+/**
+ * Given a list of items that contain both variations and the original content,
+ * returns only the requested variations or, if there are none, the original content.
+ */
+function selectVariations<T extends { _metadata?: { variation?: string } }>(
+  items: T[],
+  options: GraphVariationOptions,
+): T[] {
+  const isRequested = (item: T) => {
+    const variation = item._metadata?.variation;
+
+    if (!variation) {
+      return false;
+    }
+    if (options.include === 'SOME') {
+      return options.value?.includes(variation) ?? false;
     }
+    return options.include === 'ALL';
+  };
 
-    return obj2;
+  const variations = items.filter(isRequested);
+
+  if (variations.length > 0) {
+    return variations;
   }
 
-  return obj;
+  return items.filter((item) => !item._metadata?.variation);
+}
+
+/**
+ * Given a list of items in several locales, returns the items of the first
+ * locale in `locales` that has any. An item belongs to a locale if it is
+ * written in that locale or if it is served as fallback for that locale.
+ */
+function selectLocale<
+  T extends { _metadata?: { locale?: string; fallbackForLocale?: string } },
+>(items: T[], locales: string[]): T[] {
+  for (const locale of locales) {
+    const localized = items.filter(
+      (item) =>
+        item._metadata?.locale === locale ||
+        item._metadata?.fallbackForLocale === locale,
+    );
+
+    if (localized.length > 0) {
+      return localized;
+    }
+  }
+
+  return [];
+}
+
+/** Splits a list into chunks of at most `size` elements */
+function chunk<T>(list: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < list.length; i += size) {
+    chunks.push(list.slice(i, i + size));
+  }
+
+  return chunks;
+}
+
+/**
+ * Given the copies of a content item in several locales, returns the one
+ * that was published first (usually the default locale). Items that are not
+ * published are sorted by creation date, and then by locale.
+ */
+function selectFirstPublished<
+  T extends {
+    _metadata?: {
+      locale?: string;
+      published?: string | null;
+      created?: string | null;
+    };
+  },
+>(items: T[]): T | null {
+  // Compares ISO dates and locales. Missing values go last
+  const compare = (a?: string | null, b?: string | null) => {
+    const [x, y] = [a ?? '\uffff', b ?? '\uffff'];
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+
+  const sorted = [...items].sort(
+    (a, b) =>
+      compare(a._metadata?.published, b._metadata?.published) ||
+      compare(a._metadata?.created, b._metadata?.created) ||
+      compare(a._metadata?.locale, b._metadata?.locale),
+  );
+
+  return sorted[0] ?? null;
 }
 
 /** Adds an extra `__context` property next to each `__typename` property */
@@ -218,31 +443,288 @@ function decorateWithContext(obj: any, params: PreviewParams): any {
 export class GraphClient {
   key: string;
   graphUrl: string;
+  singleRequest: boolean;
+  persistedQueries: boolean;
+
+  private fetch?: typeof fetch;
+  private retry: Required<RetryOptions>;
+  private timeout?: number;
+  private cache?: Required<GraphCacheOptions>;
+
+  private batcher?: RequestBatcher;
+
+  /** Cache keys of the responses that are being revalidated in the background */
+  private revalidating = new Set<string>();
+  private hooks: Pick<GraphOptions, 'onRequest' | 'onResponse' | 'onError'>;
+
+  /** Cached result of {@linkcode isDamEnabled} */
+  private damEnabled?: Promise<boolean>;
 
   constructor(key: string, options: GraphOptions = {}) {
     this.key = key;
     this.graphUrl = options.graphUrl ?? 'https://cg.optimizely.com/content/v2';
+    this.singleRequest = options.singleRequest ?? false;
+    this.persistedQueries = options.persistedQueries ?? false;
+    this.fetch = options.fetch;
+    this.retry =
+      options.retry === false
+        ? { ...DEFAULT_RETRY_OPTIONS, retries: 0 }
+        : { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.timeout = options.timeout;
+
+    if (options.batch) {
+      const batchOptions = options.batch === true ? {} : options.batch;
+      this.batcher = new RequestBatcher(
+        (query, variables, previewToken) =>
+          this.sendRequest(query, variables, previewToken, {}),
+        batchOptions.maxBatchSize ?? 10,
+      );
+    }
+
+    if (options.cache) {
+      const cacheOptions = options.cache === true ? {} : options.cache;
+      this.cache = {
+        adapter: cacheOptions.adapter ?? new MemoryCache(),
+        ttl: cacheOptions.ttl ?? 60_000,
+        staleWhileRevalidate: cacheOptions.staleWhileRevalidate ?? 0,
+      };
+    }
+    this.hooks = {
+      onRequest: options.onRequest,
+      onResponse: options.onResponse,
+      onError: options.onError,
+    };
   }
 
   /** Perform a GraphQL query with variables */
-  async request(query: string, variables: any, previewToken?: string) {
+  async request(
+    query: string,
+    variables: any,
+    previewToken?: string,
+    options: GraphRequestOptions = {},
+  ) {
+    // Preview content must always be fresh
+    if (this.cache && !previewToken && options.cache !== false) {
+      return this.cachedRequest(this.cache, query, variables, options);
+    }
+
+    return this.requestWithHooks(query, variables, previewToken, options);
+  }
+
+  /** Returns the response from the cache or fetches it and stores it in the cache */
+  private async cachedRequest(
+    cache: Required<GraphCacheOptions>,
+    query: string,
+    variables: any,
+    options: GraphRequestOptions,
+  ) {
+    const key = await createCacheKey({
+      graphUrl: this.graphUrl,
+      key: this.key,
+      query,
+      variables,
+    });
+    const entry = await cache.adapter.get(key);
+    const now = Date.now();
+
+    if (entry && now < entry.expires) {
+      return entry.data;
+    }
+
+    if (entry && now < entry.staleUntil) {
+      if (!this.revalidating.has(key)) {
+        this.revalidating.add(key);
+        this.fetchAndStore(cache, key, query, variables, {})
+          // Errors are already reported to `onError`. Keep the stale entry
+          .catch(() => {})
+          .finally(() => this.revalidating.delete(key));
+      }
+
+      return entry.data;
+    }
+
+    return this.fetchAndStore(cache, key, query, variables, options);
+  }
+
+  private async fetchAndStore(
+    cache: Required<GraphCacheOptions>,
+    key: string,
+    query: string,
+    variables: any,
+    options: GraphRequestOptions,
+  ) {
+    const data = await this.requestWithHooks(
+      query,
+      variables,
+      undefined,
+      options,
+    );
+    const expires = Date.now() + cache.ttl;
+
+    await cache.adapter.set(key, {
+      data,
+      expires,
+      staleUntil: expires + cache.staleWhileRevalidate,
+    });
+
+    return data;
+  }
+
+  private async requestWithHooks(
+    query: string,
+    variables: any,
+    previewToken: string | undefined,
+    options: GraphRequestOptions,
+  ) {
+    const canBatch = !options.signal && options.timeout === undefined;
+
+    try {
+      if (this.batcher && canBatch) {
+        return await this.batcher.request(query, variables, previewToken);
+      }
+      return await this.sendRequest(query, variables, previewToken, options);
+    } catch (err) {
+      await this.hooks.onError?.(err, { query, variables });
+      throw err;
+    }
+  }
+
+  private async sendRequest(
+    query: string,
+    variables: any,
+    previewToken: string | undefined,
+    options: GraphRequestOptions,
+  ) {
+    if (!this.persistedQueries) {
+      const response = await this.send(
+        { query, variables },
+        { query, variables },
+        previewToken,
+        options,
+      );
+      return this.parseResponse(response, { query, variables });
+    }
+
+    // Send only the hash of the query. If Graph doesn't know the query yet,
+    // send the full document so Graph can store it for the next requests
+    const extensions = {
+      persistedQuery: { version: 1, sha256Hash: await hashQuery(query) },
+    };
+    let response = await this.send(
+      { variables, extensions },
+      { query, variables },
+      previewToken,
+      options,
+    );
+
+    if (await isPersistedQueryNotFound(response)) {
+      response = await this.send(
+        { query, variables, extensions },
+        { query, variables },
+        previewToken,
+        options,
+      );
+    }
+
+    return this.parseResponse(response, { query, variables });
+  }
+
+  /** Sends a request to Graph with the given body, retrying it if needed */
+  private async send(
+    body: object,
+    request: { query: string; variables: any },
+    previewToken: string | undefined,
+    options: GraphRequestOptions,
+  ) {
     const url = new URL(this.graphUrl);
 
     if (!previewToken) {
       url.searchParams.append('auth', this.key);
     }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: previewToken ? `Bearer ${previewToken}` : '',
+    let context: GraphRequestContext = {
+      url,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: previewToken ? `Bearer ${previewToken}` : '',
+        },
+        body: JSON.stringify(body),
       },
-      body: JSON.stringify({
-        query,
-        variables,
-      }),
-    }).catch((err) => {
+      ...request,
+    };
+
+    context = (await this.hooks.onRequest?.(context)) ?? context;
+
+    const signal = options.signal ?? context.init.signal ?? undefined;
+    const timeout = options.timeout ?? this.timeout;
+    const { retries, statusCodes } = this.retry;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+
+      try {
+        response = await this.fetchOnce(context, timeout, signal);
+      } catch (err) {
+        // Only network errors are retried
+        const isNetworkError =
+          err instanceof OptimizelyGraphError && err.cause instanceof TypeError;
+
+        if (!isNetworkError || attempt >= retries) {
+          throw err;
+        }
+      }
+
+      if (
+        response &&
+        (attempt >= retries || !statusCodes.includes(response.status))
+      ) {
+        return (await this.hooks.onResponse?.(response, context)) ?? response;
+      }
+
+      // Discard the body of the failed response before retrying
+      await response?.body?.cancel().catch(() => {});
+      await sleep(getRetryDelay(attempt, this.retry, response), signal);
+    }
+  }
+
+  /** Calls `fetch` once, aborting it if `timeout` is exceeded or `signal` is aborted */
+  private async fetchOnce(
+    context: GraphRequestContext,
+    timeout?: number,
+    signal?: AbortSignal,
+  ) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let timedOut = false;
+    const timer =
+      timeout !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+
+    // Note: the global `fetch` is read at call time so it can be replaced
+    const fetchFn = this.fetch ?? fetch;
+
+    try {
+      return await fetchFn(context.url, {
+        ...context.init,
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (timedOut) {
+        throw new GraphTimeoutError(timeout!);
+      }
       if (err instanceof TypeError) {
         const optiErr = new OptimizelyGraphError(
           'Error when calling `fetch`. Ensure the Graph URL is correct or try again later.',
@@ -251,7 +733,18 @@ export class GraphClient {
         throw optiErr;
       }
       throw err;
-    });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /** Returns the `data` in the response or throws an error if the response is not successful */
+  private async parseResponse(
+    response: Response,
+    request: { query: string; variables: any },
+  ) {
+    const { query, variables } = request;
 
     if (!response.ok) {
       const text = await response.text().catch((err) => {
@@ -288,7 +781,142 @@ export class GraphClient {
   }
 
   /**
-   * Fetches the content type metadata for a given content input.
+   * Checks if DAM is enabled in the CMS connected to Graph.
+   * The result is cached for the lifetime of the client.
+   */
+  async isDamEnabled(): Promise<boolean> {
+    if (!this.damEnabled) {
+      this.damEnabled = this.request(GET_DAM_ENABLED_QUERY, {})
+        .then((data) => data.damAssetType !== null)
+        .catch((err) => {
+          // Do not cache errors
+          this.damEnabled = undefined;
+          throw err;
+        });
+    }
+
+    return this.damEnabled;
+  }
+
+  /**
+   * Creates a query builder for listing content of the given content type.
+   *
+   * @param contentType - The content type to query. It must be included in the content type registry
+   * @returns A {@linkcode ContentQueryBuilder} to add filters, sorting and pagination
+   */
+  query<T extends AnyContentType>(contentType: T) {
+    return new ContentQueryBuilder(this, contentType);
+  }
+
+  /**
+   * Iterates over all content of the given content type, fetching it in pages.
+   * Shorthand for `client.query(contentType).where(...).paginate(...)`
+   *
+   * @param contentType - The content type to query.
+   * @param options - Filters, sort order, page size and maximum number of items.
+   */
+  paginate<T extends AnyContentType, S extends ContentPath<T> = never>(
+    contentType: T,
+    options: GraphPaginateOptions<T, S> = {},
+  ) {
+    const { where, orderBy, locale, select, ...paginateOptions } = options;
+    const builder = this.query(contentType).select<S>(select ?? []);
+
+    if (where) builder.where(where);
+    if (orderBy) builder.orderBy(orderBy);
+    if (locale) builder.locale(locale);
+
+    return builder.paginate(paginateOptions);
+  }
+
+  /**
+   * Returns all content of the given content type. See {@linkcode paginate}
+   */
+  async getAll<T extends AnyContentType, S extends ContentPath<T> = never>(
+    contentType: T,
+    options: GraphPaginateOptions<T, S> = {},
+  ) {
+    const items: SelectedProps<T, S>[] = [];
+
+    for await (const item of this.paginate(contentType, options)) {
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  /**
+   * Full-text search in the content. Hits are ranked by relevance.
+   *
+   * @param term - The text to search
+   * @param options - Content types, locales, facets, highlighting and pagination
+   * @returns The hits with their score and highlighted snippets, and the facet counts
+   */
+  async search<T extends AnyContentType = AnyContentType>(
+    term: string,
+    options: GraphSearchOptions<T> = {},
+  ): Promise<SearchResult<SearchItem<T>>> {
+    const types = (options.types ?? getAllContentTypes()).map((ct) => ct.key);
+    const damEnabled = types.length > 0 ? await this.isDamEnabled() : false;
+    const highlight =
+      options.highlight === false
+        ? false
+        : {
+            startToken: options.highlight?.startToken ?? '<mark>',
+            endToken: options.highlight?.endToken ?? '</mark>',
+          };
+
+    const query = createSearchQuery(types, damEnabled, {
+      facets: options.facets,
+      highlight,
+    });
+    const data = await this.request(query, {
+      where: createSearchFilter(term, {
+        ...options,
+        types: options.types ? types : undefined,
+      }),
+      locale: options.locales,
+      limit: options.limit ?? 20,
+      cursor: options.cursor,
+    });
+
+    const hits = (data?._Content?.items ?? []).map((item: any) => {
+      const { _score, _fulltext, ...rest } = item;
+
+      return {
+        item: removeTypePrefix(rest),
+        score: _score ?? 0,
+        highlights: _fulltext ?? [],
+      };
+    });
+
+    return {
+      hits,
+      total: data?._Content?.total ?? 0,
+      cursor: data?._Content?.cursor ?? '',
+      facets: data?._Content?.facets?._metadata ?? {},
+    };
+  }
+
+  /**
+   * Fetches content related to the given item ("more like this"): items that
+   * share values with it in the properties given in `options.by`. The item
+   * itself is excluded.
+   *
+   * @param content - An item fetched with this client
+   * @param options - Properties to compare, content types, locales and limit
+   * @returns The related items, most related first
+   */
+  async getRelated<T extends AnyContentType>(
+    content: RelatedSource,
+    options: GraphGetRelatedOptions<T>,
+  ) {
+    return getRelated(this, content, options);
+  }
+
+  /**
+   * Fetches the content type metadata for a given content input. The first
+   * request also checks if DAM is enabled. Later ones use the cached result.
    *
    * @param input - The content input used to query the content type.
    * @param previewToken - Optional preview token for fetching preview content.
@@ -298,15 +926,18 @@ export class GraphClient {
     input: GraphVariables,
     previewToken?: string,
   ) {
-    const data = await this.request(
-      GET_CONTENT_METADATA_QUERY,
-      input,
-      previewToken,
-    );
+    const cachedDamEnabled = this.damEnabled;
+    const query = cachedDamEnabled
+      ? GET_CONTENT_METADATA_QUERY
+      : GET_CONTENT_METADATA_WITH_DAM_QUERY;
+    const data = await this.request(query, input, previewToken);
 
     const contentTypeName = data._Content?.item?._metadata?.types?.[0];
     // Determine if DAM is enabled based on the presence of cmp_Asset type
-    const damEnabled = data.damAssetType !== null;
+    const damEnabled = cachedDamEnabled
+      ? await cachedDamEnabled
+      : data.damAssetType !== null;
+    this.damEnabled ??= Promise.resolve(damEnabled);
 
     if (!contentTypeName) {
       return { contentTypeName: null, damEnabled };
@@ -317,7 +948,7 @@ export class GraphClient {
         "Returned type is not 'string'. This might be a bug in the SDK. Try again later. If the error persists, contact Optimizely support",
         {
           request: {
-            query: GET_CONTENT_METADATA_QUERY,
+            query,
             variables: input,
           },
         },
@@ -327,37 +958,226 @@ export class GraphClient {
     return { contentTypeName, damEnabled };
   }
 
+  /**
+   * Returns the content types to include in a query that fetches the content
+   * matching `input`. In single request mode, returns all the content types
+   * in the registry (filtered by `baseTypes`) without sending any request
+   * other than the cached DAM check.
+   *
+   * @param input - The content input used to query the content type.
+   * @param baseTypes - In single request mode, include only content types with these base types.
+   * @param previewToken - Optional preview token for fetching preview content.
+   */
+  private async getQueryContentTypes(
+    input: GraphVariables,
+    baseTypes?: string[],
+    previewToken?: string,
+    contentTypes?: AnyContentType | AnyContentType[],
+  ): Promise<{ contentType: string | string[] | null; damEnabled: boolean }> {
+    if (contentTypes) {
+      return {
+        contentType: (Array.isArray(contentTypes)
+          ? contentTypes
+          : [contentTypes]
+        ).map((ct) => ct.key),
+        damEnabled: await this.isDamEnabled(),
+      };
+    }
+
+    if (this.singleRequest) {
+      const contentTypes = getAllContentTypes()
+        .filter((ct) => !baseTypes || baseTypes.includes(ct.baseType))
+        .map((ct) => ct.key);
+
+      if (contentTypes.length > 0) {
+        return {
+          contentType: contentTypes,
+          damEnabled: await this.isDamEnabled(),
+        };
+      }
+    }
+
+    const { contentTypeName, damEnabled } = await this.getContentMetaData(
+      input,
+      previewToken,
+    );
+
+    return { contentType: contentTypeName, damEnabled };
+  }
+
   /**
    * Fetches content from the CMS based on the provided path or options.
    *
    * If a string is provided, it is treated as a content path.
    *
    * @param path - A string representing the content path
-   * @param options - Options for filtering content
+   * @param options - Options for filtering content (host, locales, variations)
    *
-   * @param contentType - A string representing the content type. If omitted, the method
-   *   will try to get the content type name from the CMS.
+   * @param options.contentType - The content type (or list of content types) of the content.
+   *   The result is typed accordingly. If omitted, the method will try to get the
+   *   content type name from the CMS.
+   * @param options.select - Properties to fetch. Requires `contentType`
    *
    * @returns An array of all items matching the path and options. Returns an empty array if no content is found.
    */
+  async getContentByPath<
+    T extends AnyContentType,
+    S extends ContentPath<T> = never,
+  >(
+    path: string,
+    options: GraphGetContentOptions & GraphContentTypeOptions<T, S>,
+  ): Promise<SelectedContent<T, S>[]>;
   async getContentByPath<T = any>(
     path: string,
     options?: GraphGetContentOptions,
-  ) {
+  ): Promise<ItemsResponse<ContentResult<T>>['_Content']['items']>;
+  async getContentByPath(
+    path: string,
+    options?: GraphGetContentOptions &
+      Partial<GraphContentTypeOptions<AnyContentType, string>>,
+  ): Promise<any[]> {
+    const locales = options?.locale
+      ? [options.locale, ...(options.fallbackLocales ?? [])]
+      : undefined;
     const input: GraphVariables = {
       ...pathFilter(path, options?.host),
+      ...localeFilter(locales),
+      ...variationFilter(toVariationInput(options?.variation)),
     };
-    const { contentTypeName, damEnabled } =
-      await this.getContentMetaData(input);
+    const { contentType, damEnabled } = await this.getQueryContentTypes(
+      input,
+      ROUTABLE_BASE_TYPES,
+      undefined,
+      options?.contentType,
+    );
 
-    if (!contentTypeName) {
+    if (!contentType) {
+      return [];
+    }
+
+    const query = createMultipleContentQuery(
+      contentType,
+      damEnabled,
+      options?.select,
+    );
+    const response = (await this.request(query, input)) as ItemsResponse<any>;
+    let items = response?._Content?.items.map(removeTypePrefix) ?? [];
+
+    if (locales) {
+      items = selectLocale(items, locales);
+    }
+
+    if (options?.variation?.fallbackToOriginal) {
+      return selectVariations(items, options.variation);
+    }
+
+    return items;
+  }
+
+  /**
+   * Fetches a content item given its key.
+   *
+   * @param key - The unique key of the content
+   * @param options - Locale, version and status of the content
+   * @returns The content or `null` if not found. If `locale` is not set and
+   *   the content exists in several locales, returns the locale that was
+   *   published first (usually the default locale).
+   */
+  async getContentByKey<T = any>(
+    key: string,
+    options: GraphGetContentByKeyOptions = {},
+  ) {
+    const items = await this.getContentByKeys<T>([key], options);
+    return selectFirstPublished(items);
+  }
+
+  /**
+   * Fetches several content items given their keys.
+   *
+   * The SDK runs one query per content type, so the items can be of different types.
+   *
+   * @param keys - The unique keys of the content
+   * @param options - Locale, version and status of the content
+   * @returns The content items sorted in the same order as `keys`.
+   *   Keys without content are not included. Keys with content in several
+   *   locales or versions return one item for each of them.
+   */
+  async getContentByKeys<T = any>(
+    keys: string[],
+    options: GraphGetContentByKeyOptions = {},
+  ) {
+    if (keys.length === 0) {
       return [];
     }
 
-    const query = createMultipleContentQuery(contentTypeName, damEnabled);
-    const response = (await this.request(query, input)) as ItemsResponse<T>;
+    const { previewToken } = options;
+    const createInput = (keys: string[]): GraphVariables => ({
+      ...keyFilter(keys, {
+        version: options.version,
+        status: options.status ?? 'Published',
+      }),
+      ...localeFilter(options.locale ? [options.locale] : undefined),
+    });
+
+    // Graph returns at most `MAX_PAGE_SIZE` items per request, so keys are
+    // sent in batches and every batch is fetched in pages
+    const typeItems = await Promise.all(
+      chunk(keys, MAX_PAGE_SIZE).map((batch) =>
+        requestAllContentItems<any>(
+          this,
+          GET_CONTENT_TYPES_QUERY,
+          createInput(batch),
+          previewToken,
+        ),
+      ),
+    );
+    const keysByType = new Map<string, string[]>();
+
+    for (const item of typeItems.flat()) {
+      const contentTypeName = item?._metadata?.types?.[0];
+      const key = item?._metadata?.key;
 
-    return response?._Content?.items.map(removeTypePrefix);
+      if (typeof contentTypeName !== 'string' || typeof key !== 'string') {
+        continue;
+      }
+
+      const typeKeys = keysByType.get(contentTypeName) ?? [];
+      if (!typeKeys.includes(key)) {
+        typeKeys.push(key);
+      }
+      keysByType.set(contentTypeName, typeKeys);
+    }
+
+    if (keysByType.size === 0) {
+      return [];
+    }
+
+    const damEnabled = await this.isDamEnabled();
+    const responses = await Promise.all(
+      [...keysByType].flatMap(([contentTypeName, typeKeys]) => {
+        const query = createMultipleContentQuery(contentTypeName, damEnabled);
+
+        return chunk(typeKeys, MAX_PAGE_SIZE).map((batch) =>
+          requestAllContentItems<ItemsResponse<T>['_Content']['items'][number]>(
+            this,
+            query,
+            createInput(batch),
+            previewToken,
+          ),
+        );
+      }),
+    );
+
+    const order = new Map(keys.map((key, i) => [key, i]));
+
+    return responses
+      .flat()
+      .map(removeTypePrefix)
+      .sort(
+        (a, b) =>
+          (order.get(a._metadata?.key) ?? 0) -
+          (order.get(b._metadata?.key) ?? 0),
+      );
   }
 
   /**
@@ -426,23 +1246,72 @@ export class GraphClient {
     return links;
   }
 
-  /** Fetches a content given the preview parameters (preview_token, ctx, ver, loc, key) */
-  async getPreviewContent(params: PreviewParams) {
+  /**
+   * Given the path of a page, get a tree with the page and its descendants,
+   * sorted by `sortOrder`. Useful to render menus.
+   *
+   * @param path The URL of the root page
+   * @param options.depth Number of levels of descendants to fetch. Default: 1 (only children)
+   * @param options.currentPath Path of the current page, to mark the nodes as "current" or "in active trail"
+   * @returns The root page with its descendants in `children`, or `null` if the page does not exist
+   */
+  async getNavigationTree(
+    path: string,
+    options?: GraphGetNavigationTreeOptions,
+  ) {
+    return getNavigationTree(this, path, options);
+  }
+
+  /**
+   * Fetches a content given the preview parameters (preview_token, ctx, ver, loc, key)
+   *
+   * @param options.contentType - The content type (or list of content types) of the content.
+   *   The result is typed accordingly. If omitted, the method will try to get the
+   *   content type name from the CMS.
+   * @param options.select - Properties to fetch
+   */
+  async getPreviewContent<
+    T extends AnyContentType,
+    S extends ContentPath<T> = never,
+  >(
+    params: PreviewParams,
+    options: GraphContentTypeOptions<T, S>,
+  ): Promise<SelectedContent<T, S>>;
+  async getPreviewContent<T = any>(
+    params: PreviewParams,
+  ): Promise<ContentResult<T>>;
+  async getPreviewContent(
+    params: PreviewParams,
+    options?: GraphContentTypeOptions<AnyContentType, string>,
+  ): Promise<any> {
     const input = previewFilter(params);
-    const { contentTypeName, damEnabled } = await this.getContentMetaData(
+    const { contentType, damEnabled } = await this.getQueryContentTypes(
       input,
+      undefined,
       params.preview_token,
+      options?.contentType,
     );
 
-    if (!contentTypeName) {
+    if (!contentType) {
       throw new GraphResponseError(
         `No content found for key [${params.key}]. Check that your CMS contains something there`,
         { request: { variables: input, query: GET_CONTENT_METADATA_QUERY } },
       );
     }
-    const query = createSingleContentQuery(contentTypeName, damEnabled);
+    const query = createSingleContentQuery(
+      contentType,
+      damEnabled,
+      options?.select,
+    );
     const response = await this.request(query, input, params.preview_token);
 
+    if (!response?._Content?.item) {
+      throw new GraphResponseError(
+        `No content found for key [${params.key}]. Check that your CMS contains something there`,
+        { request: { variables: input, query } },
+      );
+    }
+
     return decorateWithContext(
       removeTypePrefix(response?._Content?.item),
       params,
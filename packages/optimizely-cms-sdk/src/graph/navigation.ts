@@ -0,0 +1,239 @@
+/**
+ * This module contains functions to fetch a navigation tree (a page and its
+ * descendants) from Optimizely Graph, for example to render menus.
+ */
+import { localeFilter, pathFilter } from './filters.js';
+import type { GraphClient } from './index.js';
+
+/** Maximum number of parents queried at once and children fetched per request */
+const PAGE_SIZE = 100;
+
+const PAGE_METADATA_FIELDS = `
+      _metadata {
+        key
+        sortOrder
+        displayName
+        locale
+        types
+        url {
+          base
+          hierarchical
+          default
+        }
+      }`;
+
+export const GET_NAVIGATION_ROOT_QUERY = `
+query GetNavigationRoot($where: _ContentWhereInput, $locale: [Locales]) {
+  _Content(where: $where, locale: $locale) {
+    item {
+      _id${PAGE_METADATA_FIELDS}
+    }
+  }
+}`;
+
+export const GET_NAVIGATION_CHILDREN_QUERY = `
+query GetNavigationChildren($keys: [String], $locale: [Locales], $limit: Int, $skip: Int) {
+  _Content(where: { _metadata: { key: { in: $keys } } }, locale: $locale, limit: $limit) {
+    items {
+      _metadata {
+        key
+      }
+      _link(type: ITEMS) {
+        _Page(limit: $limit, skip: $skip) {
+          items {${PAGE_METADATA_FIELDS}
+          }
+          total
+        }
+      }
+    }
+  }
+}`;
+
+/** Metadata of a page in a navigation tree */
+export type NavigationMetadata = {
+  key: string;
+  sortOrder?: number | null;
+  displayName?: string | null;
+  locale?: string | null;
+  types: string[];
+  url?: {
+    base?: string | null;
+    hierarchical?: string | null;
+    default?: string | null;
+  } | null;
+};
+
+/** A page in a navigation tree */
+export type NavigationNode = {
+  _metadata: NavigationMetadata;
+
+  /** Children pages, sorted by `sortOrder`. Empty in the deepest level of the tree */
+  children: NavigationNode[];
+
+  /** True if this page is the `currentPath` */
+  isCurrent: boolean;
+
+  /** True if this page is the `currentPath` or one of its ancestors */
+  isInActiveTrail: boolean;
+};
+
+export type GraphGetNavigationTreeOptions = {
+  /** Number of levels of descendants to fetch. Default: 1 (only children) */
+  depth?: number;
+
+  /** Host of the root page. Defaults to the `APPLICATION_HOST` environment variable */
+  host?: string;
+
+  /** Locales of the pages. Defaults to the locale of the root page */
+  locales?: string[];
+
+  /** Path of the page that is being rendered. Used to set `isCurrent` and `isInActiveTrail` */
+  currentPath?: string;
+
+  /** Return `false` to exclude a page (and its descendants) from the tree */
+  filter?: (metadata: NavigationMetadata) => boolean;
+};
+
+/** Removes the trailing slash of a path to compare paths */
+function normalizePath(path: string) {
+  return path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+function createNode(
+  metadata: NavigationMetadata,
+  currentPath: string | undefined,
+): NavigationNode {
+  const paths = [metadata.url?.default, metadata.url?.hierarchical]
+    .filter((p): p is string => typeof p === 'string')
+    .map(normalizePath);
+  const current =
+    currentPath === undefined ? undefined : normalizePath(currentPath);
+
+  return {
+    _metadata: metadata,
+    children: [],
+    isCurrent: current !== undefined && paths.includes(current),
+    isInActiveTrail:
+      current !== undefined &&
+      paths.some((p) => current === p || current.startsWith(p + '/')),
+  };
+}
+
+function bySortOrder(a: NavigationNode, b: NavigationNode) {
+  return (a._metadata.sortOrder ?? 0) - (b._metadata.sortOrder ?? 0);
+}
+
+/**
+ * Fetches the children of the pages with the given `keys`, skipping the first
+ * `skip` children of every page. Returns the children and their total number
+ * by key of the parent
+ */
+async function requestChildren(
+  client: GraphClient,
+  keys: string[],
+  locale: string[] | undefined,
+  skip: number,
+) {
+  const response = await client.request(GET_NAVIGATION_CHILDREN_QUERY, {
+    keys,
+    locale,
+    limit: PAGE_SIZE,
+    skip,
+  });
+  const pages = new Map<string, { items: any[]; total: number }>();
+
+  for (const item of response?._Content?.items ?? []) {
+    const key = item?._metadata?.key;
+
+    // The same content can be returned in several locales
+    if (key && !pages.has(key)) {
+      const items = item?._link?._Page?.items ?? [];
+      pages.set(key, { items, total: item?._link?._Page?.total ?? 0 });
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Fetches a page and its descendants, up to a given depth.
+ *
+ * Sends one request for the root page and one request for each level of the
+ * tree. Pages with more than 100 children need one more request for every
+ * 100 children.
+ *
+ * @param client - Client used to query Graph
+ * @param rootPath - Path of the root page. For example `/en/`
+ * @returns The root page with its descendants in `children`, or `null` if
+ * the page does not exist
+ */
+export async function getNavigationTree(
+  client: GraphClient,
+  rootPath: string,
+  options: GraphGetNavigationTreeOptions = {},
+): Promise<NavigationNode | null> {
+  const depth = options.depth ?? 1;
+  const data = await client.request(GET_NAVIGATION_ROOT_QUERY, {
+    ...pathFilter(rootPath, options.host),
+    ...localeFilter(options.locales),
+  });
+  const rootItem = data?._Content?.item;
+
+  if (!rootItem?._id || !rootItem._metadata) {
+    return null;
+  }
+
+  const root = createNode(rootItem._metadata, options.currentPath);
+  const locale =
+    options.locales ??
+    (root._metadata.locale ? [root._metadata.locale] : undefined);
+  let level = [root];
+
+  for (let i = 0; i < depth && level.length > 0; i++) {
+    const nodesByKey = new Map(level.map((node) => [node._metadata.key, node]));
+    const keys = [...nodesByKey.keys()];
+    const nextLevel: NavigationNode[] = [];
+
+    for (let j = 0; j < keys.length; j += PAGE_SIZE) {
+      const pages = await requestChildren(
+        client,
+        keys.slice(j, j + PAGE_SIZE),
+        locale,
+        0,
+      );
+
+      for (const [key, page] of pages) {
+        const parent = nodesByKey.get(key);
+        if (!parent) {
+          continue;
+        }
+
+        const items = [...page.items];
+        while (items.length < page.total) {
+          const next = (
+            await requestChildren(client, [key], locale, items.length)
+          ).get(key);
+
+          if (!next || next.items.length === 0) {
+            break;
+          }
+          items.push(...next.items);
+        }
+
+        const children: NavigationMetadata[] = items
+          .map((child: any) => child?._metadata)
+          .filter((metadata: NavigationMetadata | undefined) => metadata?.key);
+
+        parent.children = children
+          .filter((metadata) => !options.filter || options.filter(metadata))
+          .map((metadata) => createNode(metadata, options.currentPath))
+          .sort(bySortOrder);
+        nextLevel.push(...parent.children);
+      }
+    }
+
+    level = nextLevel;
+  }
+
+  return root;
+}
@@ -0,0 +1,95 @@
+/**
+ * This module contains the cursor-based pagination of Graph queries, used by
+ * the client, the query builder and the route and sitemap functions
+ */
+import type { GraphClient } from './index.js';
+
+/** Maximum number of items that Graph returns in a single request */
+export const MAX_PAGE_SIZE = 100;
+
+/** A page of items as returned by Graph */
+export type CursorPage<T> = {
+  items: T[];
+  cursor?: string | null;
+
+  /** Total number of matching items. Only present if the query requests it */
+  total?: number;
+};
+
+/** Options for {@linkcode paginateWithCursor} */
+export type CursorPaginationOptions = {
+  /** Number of items fetched in each request. Default: {@linkcode MAX_PAGE_SIZE} */
+  pageSize?: number;
+
+  /** Maximum number of items to return. Default: no maximum */
+  maxItems?: number;
+};
+
+/**
+ * Iterates over the items of all pages of a query, following Graph cursors.
+ * Stops when there is no cursor, a page is empty or `total` items have been
+ * returned.
+ *
+ * @param fetchPage - Fetches a page given the `limit` and `cursor` variables
+ */
+export async function* paginateWithCursor<T>(
+  fetchPage: (limit: number, cursor: string) => Promise<CursorPage<T>>,
+  options: CursorPaginationOptions = {},
+): AsyncGenerator<T> {
+  const pageSize = options.pageSize ?? MAX_PAGE_SIZE;
+  const maxItems = options.maxItems ?? Infinity;
+
+  // An empty cursor tells Graph to start a new cursor
+  let cursor = '';
+  let count = 0;
+
+  while (count < maxItems) {
+    const page = await fetchPage(Math.min(pageSize, maxItems - count), cursor);
+
+    for (const item of page.items) {
+      yield item;
+      count++;
+    }
+
+    if (
+      !page.cursor ||
+      page.items.length === 0 ||
+      (page.total !== undefined && count >= page.total)
+    ) {
+      return;
+    }
+    cursor = page.cursor;
+  }
+}
+
+/**
+ * Sends a query to Graph repeatedly, following the `cursor` in the `_Content`
+ * field, and returns the `items` of all pages.
+ *
+ * The query must declare the `$limit` and `$cursor` variables.
+ */
+export async function requestAllContentItems<T>(
+  client: GraphClient,
+  query: string,
+  variables: Record<string, unknown>,
+  previewToken?: string,
+): Promise<T[]> {
+  const pages = paginateWithCursor<T>(async (limit, cursor) => {
+    const data = await client.request(
+      query,
+      { ...variables, limit, cursor },
+      previewToken,
+    );
+    return {
+      items: data?._Content?.items ?? [],
+      cursor: data?._Content?.cursor,
+    };
+  });
+
+  const items: T[] = [];
+  for await (const item of pages) {
+    items.push(item);
+  }
+
+  return items;
+}
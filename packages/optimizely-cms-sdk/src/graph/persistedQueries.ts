@@ -0,0 +1,163 @@
+/**
+ * This module contains functions to work with persisted queries: queries that
+ * are sent to Graph as a hash instead of the full query document.
+ */
+import { getAllContentTypes } from '../model/contentTypeRegistry.js';
+import {
+  createContentTypeQuery,
+  createMultipleContentQuery,
+  createSearchQuery,
+  createSingleContentQuery,
+  ROUTABLE_BASE_TYPES,
+} from './createQuery.js';
+import { OptimizelyGraphError } from './error.js';
+import {
+  GET_NAVIGATION_CHILDREN_QUERY,
+  GET_NAVIGATION_ROOT_QUERY,
+} from './navigation.js';
+import {
+  GET_CONTENT_METADATA_QUERY,
+  GET_CONTENT_METADATA_WITH_DAM_QUERY,
+  GET_CONTENT_TYPES_QUERY,
+  GET_DAM_ENABLED_QUERY,
+  GET_ITEMS_QUERY,
+  GET_PATH_QUERY,
+} from './queries.js';
+import { GET_ROUTES_QUERY } from './routes.js';
+import type { SearchFacet } from './search.js';
+import { GET_SITEMAP_ITEMS_QUERY } from './sitemap.js';
+
+export type PersistedQuery = {
+  /** SHA-256 hash of the query, hex-encoded */
+  hash: string;
+  query: string;
+};
+
+export type PersistedQueriesOptions = {
+  /**
+   * Properties passed to `select` in the application, by content type key.
+   * For example `{ Article: [['title', 'image']] }`
+   */
+  select?: Record<string, string[][]>;
+
+  /**
+   * Facets passed to `GraphClient.search` in the application.
+   * For example `[['types'], ['types', 'locale']]`
+   */
+  searchFacets?: SearchFacet[][];
+};
+
+/** Queries that don't depend on the content types */
+const STATIC_QUERIES = [
+  GET_CONTENT_METADATA_QUERY,
+  GET_CONTENT_METADATA_WITH_DAM_QUERY,
+  GET_CONTENT_TYPES_QUERY,
+  GET_DAM_ENABLED_QUERY,
+  GET_PATH_QUERY,
+  GET_ITEMS_QUERY,
+  GET_NAVIGATION_ROOT_QUERY,
+  GET_NAVIGATION_CHILDREN_QUERY,
+  GET_ROUTES_QUERY,
+  GET_SITEMAP_ITEMS_QUERY,
+];
+
+/** Returns the SHA-256 hash of a query as an hex-encoded string */
+export async function hashQuery(query: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+
+  if (!subtle) {
+    throw new OptimizelyGraphError(
+      'Persisted queries require the Web Crypto API (`crypto.subtle`), which is not available in this environment',
+    );
+  }
+
+  const digest = await subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(query),
+  );
+
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Checks if Graph responded that it doesn't know the hash of a persisted query */
+export async function isPersistedQueryNotFound(response: Response) {
+  const json = await response
+    .clone()
+    .json()
+    .catch(() => null);
+
+  if (!Array.isArray(json?.errors)) {
+    return false;
+  }
+
+  return json.errors.some(
+    (e: any) =>
+      e?.message === 'PersistedQueryNotFound' ||
+      e?.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND',
+  );
+}
+
+/**
+ * Generates all the queries that `GraphClient` can send for the content
+ * types in the registry, together with their hashes.
+ *
+ * Searches are included for all the content types, with the default
+ * highlighting and without it. Searches in some of the types and custom
+ * highlight tokens are not included: Graph receives them as full queries.
+ *
+ * @param damEnabled - Set to `true` if DAM is enabled in the CMS
+ * @param options - `select` and search facets used in the application
+ * @returns A list of queries and their hashes
+ */
+export async function createPersistedQueries(
+  damEnabled: boolean = false,
+  options: PersistedQueriesOptions = {},
+): Promise<PersistedQuery[]> {
+  const contentTypes = getAllContentTypes();
+  const keys = contentTypes.map((ct) => ct.key);
+  const routableKeys = contentTypes
+    .filter((ct) => ROUTABLE_BASE_TYPES.includes(ct.baseType))
+    .map((ct) => ct.key);
+
+  const queries = [...STATIC_QUERIES];
+
+  for (const key of keys) {
+    for (const select of [[], ...(options.select?.[key] ?? [])]) {
+      queries.push(
+        createSingleContentQuery(key, damEnabled, select),
+        createMultipleContentQuery(key, damEnabled, select),
+        createContentTypeQuery(key, damEnabled, select),
+      );
+    }
+  }
+
+  // Queries sent in "single request" mode
+  if (keys.length > 0) {
+    queries.push(createSingleContentQuery(keys, damEnabled));
+  }
+  if (routableKeys.length > 0) {
+    queries.push(createMultipleContentQuery(routableKeys, damEnabled));
+  }
+
+  // `GraphClient.search` checks DAM only when there are content types
+  const searchDamEnabled = keys.length > 0 && damEnabled;
+  for (const facets of [[], ...(options.searchFacets ?? [])]) {
+    for (const highlight of [
+      { startToken: '<mark>', endToken: '</mark>' },
+      false as const,
+    ]) {
+      queries.push(
+        createSearchQuery(keys, searchDamEnabled, { facets, highlight }),
+      );
+    }
+  }
+
+  return Promise.all(
+    [...new Set(queries)].map(async (query) => ({
+      hash: await hashQuery(query),
+      query,
+    })),
+  );
+}
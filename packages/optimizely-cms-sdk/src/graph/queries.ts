@@ -0,0 +1,119 @@
+/**
+ * This module contains the static GraphQL documents sent by `GraphClient`:
+ * the queries that don't depend on the content types.
+ */
+export const GET_CONTENT_METADATA_QUERY = `
+query GetContentMetadata($where: _ContentWhereInput, $locale: [Locales], $variation: VariationInput) {
+  _Content(where: $where, locale: $locale, variation: $variation) {
+    item {
+      _metadata {
+        types
+      }
+    }
+  }
+}
+`;
+
+/** Like `GET_CONTENT_METADATA_QUERY`, used when the DAM check is not cached yet */
+export const GET_CONTENT_METADATA_WITH_DAM_QUERY = `
+query GetContentMetadataWithDam($where: _ContentWhereInput, $locale: [Locales], $variation: VariationInput) {
+  _Content(where: $where, locale: $locale, variation: $variation) {
+    item {
+      _metadata {
+        types
+      }
+    }
+  }
+  # Check if "cmp_Asset" type exists which indicates that DAM is enabled
+  damAssetType: __type(name: "cmp_Asset") {
+    __typename
+  }
+}
+`;
+
+export const GET_CONTENT_TYPES_QUERY = `
+query GetContentTypes($where: _ContentWhereInput, $locale: [Locales], $limit: Int, $cursor: String) {
+  _Content(where: $where, locale: $locale, limit: $limit, cursor: $cursor) {
+    items {
+      _metadata {
+        key
+        types
+      }
+    }
+    cursor
+  }
+}
+`;
+
+export const GET_DAM_ENABLED_QUERY = `
+query GetDamEnabled {
+  # Check if "cmp_Asset" type exists which indicates that DAM is enabled
+  damAssetType: __type(name: "cmp_Asset") {
+    __typename
+  }
+}
+`;
+
+export const GET_PATH_QUERY = `
+query GetPath($where: _ContentWhereInput, $locale: [Locales]) {
+  _Content(where: $where, locale: $locale) {
+    item {
+      _id
+      _metadata {
+        ...on InstanceMetadata {
+          path
+        }
+      }
+      _link(type: PATH) {
+        _Page {
+          items {
+            _metadata {
+              key
+              sortOrder
+              displayName
+              locale
+              types
+              url {
+                base
+                hierarchical
+                default
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+export const GET_ITEMS_QUERY = `
+query GetPath($where: _ContentWhereInput, $locale: [Locales]) {
+  _Content(where: $where, locale: $locale) {
+    item {
+      _id
+      _metadata {
+        ...on InstanceMetadata {
+          path
+        }
+      }
+      _link(type: ITEMS) {
+        _Page {
+          items {
+            _metadata {
+              key
+              sortOrder
+              displayName
+              locale
+              types
+              url {
+                base
+                hierarchical
+                default
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
@@ -0,0 +1,196 @@
+import type { GraphClient } from './index.js';
+import type { ContentPath, SelectedProps } from '../infer.js';
+import type { AnyContentType } from '../model/contentTypes.js';
+import {
+  createContentTypeQuery,
+  ContentTypeResponse,
+} from './createQuery.js';
+import { ContentTypeOrderByInput, ContentTypeWhereInput } from './filters.js';
+import { removeTypePrefix } from './removeTypePrefix.js';
+import { paginateWithCursor } from './pagination.js';
+
+/** Variables sent to Graph when querying a content type */
+export type ContentTypeQueryVariables<T extends AnyContentType> = {
+  where?: ContentTypeWhereInput<T>;
+  orderBy?: ContentTypeOrderByInput<T>;
+  locale?: string[];
+  limit?: number;
+  skip?: number;
+  cursor?: string;
+};
+
+/** Options for paginating through all the results of a query */
+export type PaginateOptions = {
+  /** Number of items fetched in each request to Graph. Default: `100` (the maximum allowed by Graph) */
+  pageSize?: number;
+
+  /**
+   * Maximum number of items to return. Stops fetching pages once reached.
+   * Default: `10000`
+   */
+  maxItems?: number;
+};
+
+const DEFAULT_MAX_ITEMS = 10_000;
+
+/**
+ * Builds and runs queries that list content of a single content type.
+ * Create instances with {@linkcode GraphClient.query}.
+ *
+ * @example
+ * ```ts
+ * const articles = await client
+ *   .query(ArticleContentType)
+ *   .where({ title: { startsWith: 'How to' } })
+ *   .orderBy({ _metadata: { published: 'DESC' } })
+ *   .limit(10)
+ *   .get();
+ * ```
+ */
+export class ContentQueryBuilder<
+  T extends AnyContentType,
+  S extends string = never,
+> {
+  private client: GraphClient;
+  private contentType: T;
+  private variables: ContentTypeQueryVariables<T> = {};
+  private selection: string[] = [];
+
+  constructor(client: GraphClient, contentType: T) {
+    this.client = client;
+    this.contentType = contentType;
+  }
+
+  /**
+   * Adds a filter. If called multiple times, all filters must match
+   * (they are combined with `_and`)
+   */
+  where(filter: ContentTypeWhereInput<T>) {
+    const current = this.variables.where;
+    this.variables.where = current
+      ? ({ _and: [current, filter] } as ContentTypeWhereInput<T>)
+      : filter;
+    return this;
+  }
+
+  /** Sets the sort order of the results */
+  orderBy(orderBy: ContentTypeOrderByInput<T>) {
+    this.variables.orderBy = orderBy;
+    return this;
+  }
+
+  /** Fetch only content in the given locale(s) */
+  locale(locale: string | string[]) {
+    this.variables.locale = Array.isArray(locale) ? locale : [locale];
+    return this;
+  }
+
+  /** Sets the maximum number of items to return */
+  limit(limit: number) {
+    this.variables.limit = limit;
+    return this;
+  }
+
+  /** Sets the number of items to skip */
+  skip(skip: number) {
+    this.variables.skip = skip;
+    return this;
+  }
+
+  /**
+   * Fetch only the given properties. The type of the items is narrowed
+   * accordingly. Use dots to select properties inside component properties.
+   *
+   * @example
+   * ```ts
+   * const cards = await client
+   *   .query(ArticleContentType)
+   *   .select(['title', 'hero.image'])
+   *   .get();
+   * ```
+   */
+  select<P extends ContentPath<T>>(paths: P[]): ContentQueryBuilder<T, P> {
+    this.selection = paths;
+    return this as unknown as ContentQueryBuilder<T, P>;
+  }
+
+  /** Returns the variables that will be sent to Graph */
+  toVariables(): ContentTypeQueryVariables<T> {
+    return { ...this.variables };
+  }
+
+  /** Sends the query to Graph with the given variables */
+  private async fetchPage(variables: ContentTypeQueryVariables<T>) {
+    const damEnabled = await this.client.isDamEnabled();
+    const query = createContentTypeQuery(
+      this.contentType.key,
+      damEnabled,
+      this.selection,
+    );
+    const response = (await this.client.request(
+      query,
+      variables,
+    )) as ContentTypeResponse<SelectedProps<T, S>>;
+    const data = response?.[this.contentType.key];
+
+    return {
+      items: (data?.items.map(removeTypePrefix) ?? []) as SelectedProps<
+        T,
+        S
+      >[],
+      total: data?.total ?? 0,
+      cursor: data?.cursor ?? null,
+    };
+  }
+
+  /** Runs the query and returns the items and the total number of matching items */
+  async getWithTotal(): Promise<{
+    items: SelectedProps<T, S>[];
+    total: number;
+  }> {
+    const { items, total } = await this.fetchPage(this.variables);
+    return { items, total };
+  }
+
+  /** Runs the query and returns the items */
+  async get(): Promise<SelectedProps<T, S>[]> {
+    const { items } = await this.getWithTotal();
+    return items;
+  }
+
+  /**
+   * Iterates over all the items matching the query, fetching them in pages
+   * using Graph cursors. `limit` and `skip` are ignored.
+   *
+   * @example
+   * ```ts
+   * for await (const article of client.query(ArticleContentType).paginate()) {
+   *   console.log(article._metadata.displayName);
+   * }
+   * ```
+   */
+  async *paginate(
+    options: PaginateOptions = {},
+  ): AsyncGenerator<SelectedProps<T, S>> {
+    const { limit, skip, ...variables } = this.variables;
+
+    yield* paginateWithCursor(
+      (limit, cursor) => this.fetchPage({ ...variables, limit, cursor }),
+      {
+        pageSize: options.pageSize,
+        maxItems: options.maxItems ?? DEFAULT_MAX_ITEMS,
+      },
+    );
+  }
+
+  /** Returns all the items matching the query. See {@linkcode paginate} */
+  async getAll(options: PaginateOptions = {}): Promise<SelectedProps<T, S>[]> {
+    const items: SelectedProps<T, S>[] = [];
+
+    for await (const item of this.paginate(options)) {
+      items.push(item);
+    }
+
+    return items;
+  }
+}
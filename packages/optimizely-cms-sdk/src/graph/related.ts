@@ -0,0 +1,162 @@
+/**
+ * This module contains functions to find content related to a given item
+ * ("more like this"), based on the values of some of its properties.
+ */
+import type { ContentProps } from '../infer.js';
+import type { AnyContentType } from '../model/contentTypes.js';
+import { getContentType } from '../model/contentTypeRegistry.js';
+import { GraphMissingContentTypeError } from './error.js';
+import type { ContentTypeWhereInput } from './filters.js';
+import type { GraphClient } from './index.js';
+
+/** A property used to find related content */
+export type RelatedProperty =
+  | string
+  | {
+      /** Name of the property */
+      property: string;
+
+      /** Weight of the matches in this property. Default: 1 */
+      boost?: number;
+    };
+
+export type GraphGetRelatedOptions<T extends AnyContentType> = {
+  /**
+   * Properties of the content that related items must share. For example
+   * `['tags', 'categories']`. Items matching more values rank higher
+   */
+  by: RelatedProperty[];
+
+  /** Content types of the related items. Defaults to the type of the given content */
+  types?: T[];
+
+  /** Locales of the related items. Defaults to the locale of the given content */
+  locales?: string[];
+
+  /** Maximum number of related items. Default: 5 */
+  limit?: number;
+};
+
+/** Content to find related items for, as returned by the `GraphClient` */
+export type RelatedSource = {
+  __typename?: string;
+  _metadata?: { key?: string | null; locale?: string | null } | null;
+  [property: string]: unknown;
+};
+
+/** Returns the property values as a list of strings or numbers */
+function getValues(value: unknown): (string | number)[] {
+  const values = Array.isArray(value) ? value : [value];
+
+  return values.filter(
+    (v): v is string | number => typeof v === 'string' || typeof v === 'number',
+  );
+}
+
+function normalizeProperties(by: RelatedProperty[]) {
+  return by.map((p) =>
+    typeof p === 'string' ? { property: p, boost: 1 } : { boost: 1, ...p },
+  );
+}
+
+/**
+ * Returns the `where` argument to find items that share values with `content`
+ * in the given properties. Returns `null` if `content` has no values in them.
+ */
+export function createRelatedFilter(
+  content: RelatedSource,
+  by: RelatedProperty[],
+): Record<string, unknown> | null {
+  const clauses = normalizeProperties(by).flatMap(({ property, boost }) => {
+    const values = getValues(content[property]);
+
+    return values.length > 0 ? [{ [property]: { in: values, boost } }] : [];
+  });
+
+  if (clauses.length === 0) {
+    return null;
+  }
+
+  const key = content._metadata?.key;
+
+  return {
+    _and: [
+      { _or: clauses },
+      ...(key ? [{ _metadata: { key: { notEq: key } } }] : []),
+    ],
+  };
+}
+
+/**
+ * Number of values shared between two items, weighted by the boost of each
+ * property. Used to rank items of different content types together
+ */
+function getSharedScore(
+  content: RelatedSource,
+  item: Record<string, unknown>,
+  by: RelatedProperty[],
+) {
+  return normalizeProperties(by).reduce((score, { property, boost }) => {
+    const values = new Set(getValues(content[property]));
+    const shared = getValues(item[property]).filter((v) => values.has(v));
+
+    return score + shared.length * boost;
+  }, 0);
+}
+
+/**
+ * Fetches items related to `content`: items that share values with it in the
+ * properties given in `by`. The content itself is excluded.
+ *
+ * @returns The related items, most related first
+ */
+export async function getRelated<T extends AnyContentType>(
+  client: GraphClient,
+  content: RelatedSource,
+  options: GraphGetRelatedOptions<T>,
+): Promise<ContentProps<T>[]> {
+  const limit = options.limit ?? 5;
+  const where = createRelatedFilter(content, options.by);
+
+  if (!where) {
+    return [];
+  }
+
+  let types: AnyContentType[] | undefined = options.types;
+  if (!types) {
+    const typeName = content.__typename ?? '';
+    const contentType = getContentType(typeName);
+
+    if (!contentType) {
+      throw new GraphMissingContentTypeError(typeName);
+    }
+
+    types = [contentType];
+  }
+
+  const locale = options.locales ?? content._metadata?.locale;
+  const results = await Promise.all(
+    types.map((type) => {
+      const builder = client
+        .query(type)
+        .where(where as ContentTypeWhereInput<AnyContentType>)
+        .orderBy({ _ranking: 'RELEVANCE' })
+        .limit(limit);
+
+      return (locale ? builder.locale(locale) : builder).get();
+    }),
+  );
+
+  const items = results.flat() as ContentProps<T>[];
+
+  // Graph ranks the items of each type. Sort them when there are multiple types
+  if (types.length > 1) {
+    items.sort(
+      (a, b) =>
+        getSharedScore(content, b, options.by) -
+        getSharedScore(content, a, options.by),
+    );
+  }
+
+  return items.slice(0, limit);
+}
@@ -0,0 +1,53 @@
+/**
+ * This module contains the function to remove the alias prefixes that the
+ * SDK adds to the fields of the queries it generates.
+ *
+ * This is used internally in the SDK
+ */
+
+/**
+ * Removes GraphQL alias prefixes from object keys in the response data.
+ *
+ * For objects with a `__typename` property, removes the `{typename}__` prefix
+ * from all field names (e.g., `ContentType__p1` becomes `p1`).
+ * This reverses the aliasing applied in query generation to prevent field
+ * name collisions in GraphQL fragments.
+ *
+ * Traverses all keys in an object recursively, processing arrays and nested objects.
+ *
+ * @param obj - The object to process (typically a GraphQL response)
+ * @returns A new object with prefixes removed, or the original value for primitives
+ *
+ * Note: this function should not be exported in the user-facing API
+ */
+export function removeTypePrefix(obj: any): any {
+  if (Array.isArray(obj)) {
+    return obj.map((e) => removeTypePrefix(e));
+  }
+
+  if (typeof obj === 'object' && obj !== null) {
+    const obj2: Record<string, any> = {};
+    if ('__typename' in obj && typeof obj.__typename === 'string') {
+      // Object has a GraphQL type, check for and remove aliased field prefixes
+      const prefix = obj.__typename + '__';
+
+      // Copy all properties, remove the typename from prefix
+      for (const k in obj) {
+        if (k.startsWith(prefix)) {
+          obj2[k.slice(prefix.length)] = removeTypePrefix(obj[k]);
+        } else {
+          obj2[k] = removeTypePrefix(obj[k]);
+        }
+      }
+    } else {
+      // Traverse recursively
+      for (const k in obj) {
+        obj2[k] = removeTypePrefix(obj[k]);
+      }
+    }
+
+    return obj2;
+  }
+
+  return obj;
+}
@@ -0,0 +1,105 @@
+/**
+ * This module contains the functions to retry failed requests to Graph
+ *
+ * This is used internally in the SDK
+ */
+
+/** Options for retrying failed requests */
+export type RetryOptions = {
+  /** Maximum number of retries. Set to `0` to disable retries. Default: `2` */
+  retries?: number;
+
+  /** Delay before the first retry, in milliseconds. Default: `300` */
+  minDelay?: number;
+
+  /**
+   * Maximum delay between retries, in milliseconds. Also limits the delay
+   * requested by the `Retry-After` header. Default: `5000`
+   */
+  maxDelay?: number;
+
+  /** HTTP status codes that are retried. Default: `[429, 502, 503, 504]` */
+  statusCodes?: number[];
+};
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 2,
+  minDelay: 300,
+  maxDelay: 5000,
+  statusCodes: [429, 502, 503, 504],
+};
+
+/**
+ * Parses the `Retry-After` header (either seconds or an HTTP date).
+ *
+ * @returns The delay in milliseconds or `null` if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now(),
+): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+/**
+ * Returns the delay before the next retry: the `Retry-After` header if present
+ * or an exponential backoff with jitter otherwise. The delay is never longer
+ * than `options.maxDelay`.
+ *
+ * @param attempt - Number of the retry, starting from 0
+ * @param options - Retry options
+ * @param response - The failed response, if any
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: Required<RetryOptions>,
+  response?: Response,
+): number {
+  const retryAfter = parseRetryAfter(
+    response?.headers.get('Retry-After') ?? null,
+  );
+
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, options.maxDelay);
+  }
+
+  const backoff = Math.min(options.maxDelay, options.minDelay * 2 ** attempt);
+
+  // "Equal jitter": half of the delay is fixed and the other half is random
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/** Waits `ms` milliseconds. Rejects if `signal` is aborted */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
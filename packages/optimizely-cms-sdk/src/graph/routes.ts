@@ -0,0 +1,127 @@
+/**
+ * This module contains functions to list the routes (URLs) of the routable
+ * content in Optimizely Graph. For example, to generate static pages at build time
+ */
+import { toBaseTypeFragmentKey } from '../util/baseTypeUtil.js';
+import { ROUTABLE_BASE_TYPES } from './createQuery.js';
+import type { ContentWhereInput } from './filters.js';
+import type { GraphClient } from './index.js';
+import { requestAllContentItems } from './pagination.js';
+
+export const GET_ROUTES_QUERY = `
+query GetRoutes($where: _ContentWhereInput, $locale: [Locales], $limit: Int, $cursor: String) {
+  _Content(where: $where, locale: $locale, limit: $limit, cursor: $cursor) {
+    items {
+      _metadata {
+        key
+        locale
+        url {
+          base
+          default
+        }
+      }
+    }
+    cursor
+  }
+}`;
+
+export type GetAllRoutesOptions = {
+  /**
+   * Host of the site. For example `https://example.com`.
+   * Defaults to the `APPLICATION_HOST` environment variable. If none is set,
+   * routes from all hosts are returned
+   */
+  host?: string;
+
+  /** Locales to include. All locales if omitted */
+  locales?: string[];
+
+  /** Base types of the content to include. Default: `['_page', '_experience']` */
+  baseTypes?: string[];
+};
+
+/** A route of the site */
+export type Route = {
+  /** Key of the content */
+  key: string;
+
+  /** Locale of the content */
+  locale: string;
+
+  /** Path as stored in Graph. For example `/en/about/` */
+  path: string;
+
+  /** Path split in segments without empty segments. For example `['en', 'about']` */
+  segments: string[];
+};
+
+/**
+ * Returns a filter for the routable content of a host.
+ *
+ * @param host - Host of the site. Content from all hosts if omitted
+ * @param baseTypes - Base types of the content. For example `['_page']`
+ */
+export function routableContentFilter(
+  host?: string,
+  baseTypes: string[] = ROUTABLE_BASE_TYPES,
+): ContentWhereInput {
+  return {
+    _metadata: {
+      types: { in: baseTypes.map(toBaseTypeFragmentKey) },
+      ...(host && { url: { base: { eq: host } } }),
+    },
+  };
+}
+
+/** Splits a path in segments. For example `/en/about/` is `['en', 'about']` */
+export function getPathSegments(path: string) {
+  return path.split('/').filter((segment) => segment !== '');
+}
+
+/**
+ * Fetches the routes of all pages and experiences of a site, following the
+ * pagination of Graph.
+ *
+ * @example
+ * ```ts
+ * // app/[...slug]/page.tsx (Next.js)
+ * export async function generateStaticParams() {
+ *   const routes = await getAllRoutes(client, { host: 'https://example.com' });
+ *
+ *   return routes
+ *     .filter((route) => route.segments.length > 0)
+ *     .map((route) => ({ slug: route.segments }));
+ * }
+ * ```
+ */
+export async function getAllRoutes(
+  client: GraphClient,
+  options: GetAllRoutesOptions = {},
+): Promise<Route[]> {
+  const host = options.host ?? process.env.APPLICATION_HOST;
+  const items = await requestAllContentItems<any>(client, GET_ROUTES_QUERY, {
+    where: routableContentFilter(host, options.baseTypes),
+    locale: options.locales,
+  });
+
+  const routes: Route[] = [];
+  const paths = new Set<string>();
+
+  for (const item of items) {
+    const path = item?._metadata?.url?.default;
+
+    if (typeof path !== 'string' || paths.has(path)) {
+      continue;
+    }
+
+    paths.add(path);
+    routes.push({
+      key: item._metadata.key,
+      locale: item._metadata.locale,
+      path,
+      segments: getPathSegments(path),
+    });
+  }
+
+  return routes;
+}
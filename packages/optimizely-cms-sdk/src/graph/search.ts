@@ -0,0 +1,106 @@
+/**
+ * Types and utilities for the full-text search in Optimizely Graph.
+ * See {@linkcode GraphClient.search}
+ */
+import type { ContentProps } from '../infer.js';
+import type { AnyContentType } from '../model/contentTypes.js';
+import type { ContentWhereInput, StringFilterInput } from './filters.js';
+import type { GraphClient } from './index.js';
+
+/** Fields of `_metadata` that can be used as facets in a search */
+export type SearchFacet = 'types' | 'locale' | 'status';
+
+export type GraphSearchOptions<T extends AnyContentType> = {
+  /** Content types to search in. All registered content types if omitted */
+  types?: T[];
+
+  /** Locales to search in. All locales if omitted */
+  locales?: string[];
+
+  /** Additional filters for the results */
+  where?: ContentWhereInput;
+
+  /** Fields of `_metadata` to count the results by. For example `['types']` */
+  facets?: SearchFacet[];
+
+  /**
+   * Tokens that surround the matched terms in the highlighted snippets.
+   * Default: `<mark>` and `</mark>`. Pass `false` to disable highlighting
+   */
+  highlight?: { startToken?: string; endToken?: string } | false;
+
+  /** Match terms with typos. Default: `false` */
+  fuzzy?: boolean;
+
+  /** Expand the search with the synonyms configured in Graph */
+  synonyms?: StringFilterInput['synonyms'];
+
+  /** Maximum number of hits to return. Default: 20 */
+  limit?: number;
+
+  /** Cursor from a previous search, to get the next hits */
+  cursor?: string;
+};
+
+/** A result of a search */
+export type SearchHit<T> = {
+  /** The content that matches the search */
+  item: T;
+
+  /** Relevance of the item. Hits are sorted by this field */
+  score: number;
+
+  /** Snippets of the content where the terms were found */
+  highlights: string[];
+};
+
+/** Number of hits for a value of a facet */
+export type SearchFacetValue = {
+  name: string;
+  count: number;
+};
+
+export type SearchResult<T> = {
+  hits: SearchHit<T>[];
+
+  /** Total number of hits */
+  total: number;
+
+  /** Pass it as `cursor` to get the next hits. Empty if there are no more hits */
+  cursor: string;
+
+  /** Number of hits for each value of the facets requested */
+  facets: Partial<Record<SearchFacet, SearchFacetValue[]>>;
+};
+
+/** Type of the items returned by {@linkcode GraphClient.search} */
+export type SearchItem<T extends AnyContentType> = ContentProps<T>;
+
+/** Returns the `where` argument for a search */
+export function createSearchFilter(
+  term: string,
+  options: Pick<
+    GraphSearchOptions<AnyContentType>,
+    'where' | 'fuzzy' | 'synonyms'
+  > & { types?: string[] },
+): ContentWhereInput {
+  const filters: ContentWhereInput[] = [
+    {
+      _fulltext: {
+        match: term,
+        ...(options.fuzzy && { fuzzy: true }),
+        ...(options.synonyms && { synonyms: options.synonyms }),
+      },
+    },
+  ];
+
+  if (options.types && options.types.length > 0) {
+    filters.push({ _metadata: { types: { in: options.types } } });
+  }
+
+  if (options.where) {
+    filters.push(options.where);
+  }
+
+  return filters.length === 1 ? filters[0] : { _and: filters };
+}
@@ -0,0 +1,258 @@
+/**
+ * This module contains functions to generate `sitemap.xml` and `robots.txt`
+ * files from the content in Optimizely Graph.
+ *
+ * Learn more about the sitemap format: https://www.sitemaps.org/protocol.html
+ */
+import type { GraphClient } from './index.js';
+import { requestAllContentItems } from './pagination.js';
+import { routableContentFilter } from './routes.js';
+
+/** Maximum number of URLs in a single sitemap file, as defined by the protocol */
+export const MAX_SITEMAP_URLS = 50000;
+
+export const GET_SITEMAP_ITEMS_QUERY = `
+query GetSitemapItems($where: _ContentWhereInput, $locale: [Locales], $limit: Int, $cursor: String) {
+  _Content(where: $where, locale: $locale, limit: $limit, cursor: $cursor) {
+    items {
+      _metadata {
+        key
+        locale
+        lastModified
+        url {
+          base
+          default
+        }
+        ...on InstanceMetadata {
+          locales
+          expired
+        }
+      }
+    }
+    cursor
+  }
+}`;
+
+type SitemapItemResponse = {
+  _metadata?: {
+    key?: string | null;
+    locale?: string | null;
+    lastModified?: string | null;
+    url?: { base?: string | null; default?: string | null } | null;
+    locales?: (string | null)[] | null;
+    expired?: string | null;
+  } | null;
+};
+
+export type GenerateSitemapOptions = {
+  /**
+   * Host of the site. For example `https://example.com`. Only content from
+   * this host is included. Also used to build absolute URLs when the content
+   * doesn't have a base URL
+   */
+  host: string;
+
+  /** Locales to include. All locales if omitted */
+  locales?: string[];
+
+  /** Maximum number of URLs per sitemap file. Default: 50000 */
+  maxUrlsPerSitemap?: number;
+};
+
+/** An entry in a sitemap */
+export type SitemapEntry = {
+  /** Absolute URL of the page */
+  loc: string;
+
+  /** Date of last modification (ISO 8601) */
+  lastmod?: string;
+
+  /** URLs of the same page in other locales */
+  alternates: { hreflang: string; href: string }[];
+};
+
+/** A generated sitemap file */
+export type SitemapFile = {
+  /** Path of the file, relative to the host. For example `sitemap.xml` */
+  path: string;
+
+  /** XML content of the file */
+  xml: string;
+};
+
+function escapeXml(str: string) {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Fetches all routable, non-expired content from Graph and returns one
+ * {@linkcode SitemapEntry} for each URL.
+ */
+export async function getSitemapEntries(
+  client: GraphClient,
+  options: Omit<GenerateSitemapOptions, 'maxUrlsPerSitemap'>,
+): Promise<SitemapEntry[]> {
+  const items = await requestAllContentItems<SitemapItemResponse>(
+    client,
+    GET_SITEMAP_ITEMS_QUERY,
+    {
+      where: routableContentFilter(options.host),
+      locale: options.locales,
+    },
+  );
+
+  const now = Date.now();
+  const pages = items
+    .map((item) => item._metadata)
+    .filter(
+      (metadata) =>
+        typeof metadata?.url?.default === 'string' &&
+        !(metadata.expired && Date.parse(metadata.expired) <= now),
+    )
+    .map((metadata) => ({
+      key: metadata!.key,
+      locale: metadata!.locale,
+      locales: metadata!.locales ?? [],
+      lastModified: metadata!.lastModified ?? undefined,
+      loc: new URL(
+        metadata!.url!.default!,
+        metadata!.url!.base ?? options.host,
+      ).toString(),
+    }));
+
+  // Pages grouped by content key, used to find other locales of the same page
+  const pagesByKey = new Map<string, typeof pages>();
+  for (const page of pages) {
+    if (page.key) {
+      pagesByKey.set(page.key, [...(pagesByKey.get(page.key) ?? []), page]);
+    }
+  }
+
+  return pages.map((page) => {
+    const translations = page.key ? (pagesByKey.get(page.key) ?? []) : [];
+    const alternates = translations
+      .filter((t) => t.locale && page.locales.includes(t.locale))
+      .map((t) => ({ hreflang: t.locale!, href: t.loc }));
+
+    return {
+      loc: page.loc,
+      lastmod: page.lastModified,
+      // A single locale doesn't need alternates
+      alternates: alternates.length > 1 ? alternates : [],
+    };
+  });
+}
+
+/** Returns the XML of a sitemap with the given entries */
+export function createSitemapXml(entries: SitemapEntry[]) {
+  const urls = entries.map((entry) =>
+    [
+      '  <url>',
+      `    <loc>${escapeXml(entry.loc)}</loc>`,
+      ...(entry.lastmod
+        ? [`    <lastmod>${escapeXml(entry.lastmod)}</lastmod>`]
+        : []),
+      ...entry.alternates.map(
+        (a) =>
+          `    <xhtml:link rel="alternate" hreflang="${escapeXml(a.hreflang)}" href="${escapeXml(a.href)}"/>`,
+      ),
+      '  </url>',
+    ].join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+  ].join('\n');
+}
+
+/** Returns the XML of a sitemap index that points to the given sitemap URLs */
+export function createSitemapIndexXml(urls: string[]) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map((url) => `  <sitemap><loc>${escapeXml(url)}</loc></sitemap>`),
+    '</sitemapindex>',
+  ].join('\n');
+}
+
+/**
+ * Generates the sitemap files of a site with the content in Graph.
+ *
+ * Includes all routable content (pages and experiences) that is not expired,
+ * with `hreflang` alternates for the content that exists in multiple locales.
+ *
+ * @returns A single `sitemap.xml` file or, if there are more URLs than
+ * `maxUrlsPerSitemap`, a `sitemap.xml` index file pointing to `sitemap-1.xml`,
+ * `sitemap-2.xml`...
+ *
+ * @example
+ * ```ts
+ * // app/sitemap.xml/route.ts (Next.js)
+ * export async function GET() {
+ *   const [sitemap] = await generateSitemap(client, { host: 'https://example.com' });
+ *   return new Response(sitemap.xml, { headers: { 'Content-Type': 'application/xml' } });
+ * }
+ * ```
+ */
+export async function generateSitemap(
+  client: GraphClient,
+  options: GenerateSitemapOptions,
+): Promise<SitemapFile[]> {
+  const maxUrls = options.maxUrlsPerSitemap ?? MAX_SITEMAP_URLS;
+  const entries = await getSitemapEntries(client, options);
+
+  if (entries.length <= maxUrls) {
+    return [{ path: 'sitemap.xml', xml: createSitemapXml(entries) }];
+  }
+
+  const sitemaps: SitemapFile[] = [];
+  for (let i = 0; i < entries.length; i += maxUrls) {
+    sitemaps.push({
+      path: `sitemap-${sitemaps.length + 1}.xml`,
+      xml: createSitemapXml(entries.slice(i, i + maxUrls)),
+    });
+  }
+
+  const index = createSitemapIndexXml(
+    sitemaps.map((s) => new URL(s.path, options.host).toString()),
+  );
+
+  return [{ path: 'sitemap.xml', xml: index }, ...sitemaps];
+}
+
+export type GenerateRobotsTxtOptions = {
+  /** Host of the site. For example `https://example.com` */
+  host: string;
+
+  /** Path of the sitemap, relative to the host. Default: `sitemap.xml` */
+  sitemapPath?: string;
+
+  /** Paths that crawlers should not visit */
+  disallow?: string[];
+
+  /** User agent the rules apply to. Default: `*` */
+  userAgent?: string;
+};
+
+/** Returns the content of a `robots.txt` file that points to the sitemap */
+export function generateRobotsTxt(options: GenerateRobotsTxtOptions) {
+  const disallow = options.disallow ?? [];
+
+  return [
+    `User-agent: ${options.userAgent ?? '*'}`,
+    ...(disallow.length > 0
+      ? disallow.map((path) => `Disallow: ${path}`)
+      : ['Allow: /']),
+    '',
+    `Sitemap: ${new URL(options.sitemapPath ?? 'sitemap.xml', options.host)}`,
+    '',
+  ].join('\n');
+}
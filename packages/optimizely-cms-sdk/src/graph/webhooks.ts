@@ -0,0 +1,264 @@
+/**
+ * This module contains a framework-agnostic handler for webhooks sent by
+ * Optimizely Graph, typically used to invalidate caches when content changes.
+ *
+ * Learn more about the format of webhook requests:
+ * https://docs.developers.optimizely.com/platform-optimizely/docs/webhook-response
+ */
+import type { GraphClient } from './index.js';
+
+/** Body of a webhook request sent when a document is updated */
+export type GraphDocWebhookPayload = {
+  timestamp?: string;
+  tenantId?: string;
+  type: { subject: 'doc'; action: 'updated' | (string & {}) };
+  data: { docId: string };
+};
+
+/** Body of a webhook request sent when a bulk operation is completed */
+export type GraphBulkWebhookPayload = {
+  timestamp?: string;
+  tenantId?: string;
+  type: { subject: 'bulk'; action: 'completed' | (string & {}) };
+  data: {
+    journalId?: string;
+
+    /** Status of each document in the bulk operation (`indexed`, `deleted`...) keyed by `docId` */
+    items?: Record<string, string>;
+  };
+};
+
+/** Body of any webhook request sent by Graph */
+export type GraphWebhookPayload =
+  | GraphDocWebhookPayload
+  | GraphBulkWebhookPayload
+  | {
+      timestamp?: string;
+      tenantId?: string;
+      type: { subject: string; action: string };
+      data?: unknown;
+    };
+
+/** Parts of a Graph document ID */
+export type ParsedDocId = {
+  /** Content ID (GUID) without dashes, as used in Graph queries */
+  id: string;
+
+  /** Locale of the document. For example `en` */
+  locale: string;
+
+  /** Status of the document. For example `Published` */
+  status: string;
+};
+
+/**
+ * Parses a document ID with the format `<UUID>_<locale>_<status>`.
+ *
+ * @returns The parts of the ID or `null` if the ID has a different format
+ */
+export function parseDocId(docId: string): ParsedDocId | null {
+  const parts = docId.split('_');
+
+  if (parts.length < 3) {
+    return null;
+  }
+
+  return {
+    id: parts[0].replaceAll('-', ''),
+    locale: parts.slice(1, -1).join('_'),
+    status: parts[parts.length - 1],
+  };
+}
+
+const GET_URL_QUERY = `
+query GetUrl($id: String, $locale: Locales) {
+  _Content(ids: [$id], locale: [$locale]) {
+    item {
+      _metadata {
+        url {
+          base
+          default
+        }
+      }
+    }
+  }
+}`;
+
+/**
+ * Returns the URL paths affected by a change in a document: the path of the
+ * document and the path of all its ancestors.
+ *
+ * @param client - Client used to query Graph
+ * @param docId - ID of the document, as sent in the webhook
+ * @returns A list of paths. Empty if the document doesn't exist or doesn't have a URL
+ */
+export async function resolveDocUrls(
+  client: GraphClient,
+  docId: string,
+): Promise<string[]> {
+  const doc = parseDocId(docId);
+
+  if (!doc) {
+    return [];
+  }
+
+  const data = await client.request(GET_URL_QUERY, {
+    id: doc.id,
+    locale: doc.locale,
+  });
+  const url = data?._Content?.item?._metadata?.url;
+
+  if (typeof url?.default !== 'string') {
+    return [];
+  }
+
+  const ancestors =
+    (await client
+      .getPath(url.default, {
+        host: url.base ?? undefined,
+        locales: [doc.locale],
+      })
+      // Content that is not a page (e.g. a block) does not have ancestors
+      .catch(() => null)) ?? [];
+
+  const paths = [
+    url.default,
+    ...ancestors.map((a) => a._metadata?.url?.default),
+  ].filter((path): path is string => typeof path === 'string');
+
+  return [...new Set(paths)];
+}
+
+/** Compares two strings in constant time to avoid timing attacks */
+function safeEqual(a: string, b: string) {
+  let diff = a.length ^ b.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+
+  return diff === 0;
+}
+
+export type GraphWebhookHandlerOptions = {
+  /**
+   * Secret that requests must include. Webhook URLs are public, so anyone
+   * with the URL could send requests. Treat it as a password.
+   */
+  secret: string;
+
+  /**
+   * Returns the secret sent in the request. By default, it is read from the
+   * `secret` query parameter or from the `x-webhook-secret` header
+   */
+  getRequestSecret?: (request: Request) => string | null | undefined;
+
+  /** Client used to find the URLs affected by a document update */
+  client?: GraphClient;
+
+  /** Called when a document is updated */
+  onDocUpdated?: (event: {
+    payload: GraphDocWebhookPayload;
+    doc: ParsedDocId | null;
+
+    /**
+     * Paths of the document and its ancestors.
+     * Empty if `client` is not set or the document doesn't have a URL
+     */
+    paths: string[];
+  }) => void | Promise<void>;
+
+  /** Called when a bulk operation is completed */
+  onBulkCompleted?: (event: {
+    payload: GraphBulkWebhookPayload;
+    items: { docId: string; doc: ParsedDocId | null; status: string }[];
+
+    /** Document IDs of the deleted documents */
+    deleted: string[];
+  }) => void | Promise<void>;
+
+  /** Called for every valid webhook request, including the ones handled by the other callbacks */
+  onEvent?: (payload: GraphWebhookPayload) => void | Promise<void>;
+};
+
+function isDocUpdated(
+  payload: GraphWebhookPayload,
+): payload is GraphDocWebhookPayload {
+  return (
+    payload.type?.subject === 'doc' &&
+    payload.type?.action === 'updated' &&
+    typeof (payload as GraphDocWebhookPayload).data?.docId === 'string'
+  );
+}
+
+function isBulkCompleted(
+  payload: GraphWebhookPayload,
+): payload is GraphBulkWebhookPayload {
+  return payload.type?.subject === 'bulk' && payload.type?.action === 'completed';
+}
+
+/**
+ * Creates a handler for webhook requests sent by Graph. The handler receives
+ * a standard `Request` and returns a `Response`, so it can be used in any
+ * framework that supports the Fetch API (Next.js route handlers, Hono...)
+ *
+ * @example
+ * ```ts
+ * // app/webhooks/route.ts (Next.js)
+ * export const POST = createGraphWebhookHandler({
+ *   secret: process.env.WEBHOOK_SECRET!,
+ *   client,
+ *   onDocUpdated({ paths }) {
+ *     paths.forEach((path) => revalidatePath(path));
+ *   },
+ * });
+ * ```
+ */
+export function createGraphWebhookHandler(options: GraphWebhookHandlerOptions) {
+  const getRequestSecret =
+    options.getRequestSecret ??
+    ((request: Request) =>
+      new URL(request.url).searchParams.get('secret') ??
+      request.headers.get('x-webhook-secret'));
+
+  return async function handleGraphWebhook(request: Request) {
+    const requestSecret = getRequestSecret(request);
+
+    if (!requestSecret || !safeEqual(requestSecret, options.secret)) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: GraphWebhookPayload;
+    try {
+      payload = await request.json();
+    } catch {
+      return Response.json({ message: 'Invalid JSON' }, { status: 400 });
+    }
+
+    if (typeof payload?.type !== 'object' || payload.type === null) {
+      return Response.json({ message: 'Invalid payload' }, { status: 400 });
+    }
+
+    await options.onEvent?.(payload);
+
+    if (isDocUpdated(payload) && options.onDocUpdated) {
+      const docId = payload.data.docId;
+      const paths = options.client
+        ? await resolveDocUrls(options.client, docId)
+        : [];
+
+      await options.onDocUpdated({ payload, doc: parseDocId(docId), paths });
+    } else if (isBulkCompleted(payload) && options.onBulkCompleted) {
+      const items = Object.entries(payload.data?.items ?? {}).map(
+        ([docId, status]) => ({ docId, doc: parseDocId(docId), status }),
+      );
+      const deleted = items
+        .filter((item) => item.status === 'deleted')
+        .map((item) => item.docId);
+
+      await options.onBulkCompleted({ payload, items, deleted });
+    }
+
+    return Response.json({ message: 'OK' });
+  };
+}
@@ -13,8 +13,78 @@ export {
   GraphClient,
   GraphGetContentOptions,
   GraphGetLinksOptions,
+  GraphVariationOptions,
+  GraphPaginateOptions,
 } from './graph/index.js';
-export type { PreviewParams } from './graph/index.js';
+export type {
+  PreviewParams,
+  GraphOptions,
+  GraphRequestOptions,
+  GraphRequestContext,
+  GraphRequestInit,
+} from './graph/index.js';
+export { ContentQueryBuilder } from './graph/queryBuilder.js';
+export type { PaginateOptions } from './graph/queryBuilder.js';
+export type { RetryOptions } from './graph/retry.js';
+export { MemoryCache } from './graph/cache.js';
+export {
+  createGraphWebhookHandler,
+  parseDocId,
+  resolveDocUrls,
+} from './graph/webhooks.js';
+export type {
+  GraphWebhookPayload,
+  GraphDocWebhookPayload,
+  GraphBulkWebhookPayload,
+  GraphWebhookHandlerOptions,
+  ParsedDocId,
+} from './graph/webhooks.js';
+export {
+  generateSitemap,
+  generateRobotsTxt,
+  getSitemapEntries,
+  MAX_SITEMAP_URLS,
+} from './graph/sitemap.js';
+export type {
+  GenerateSitemapOptions,
+  GenerateRobotsTxtOptions,
+  SitemapEntry,
+  SitemapFile,
+} from './graph/sitemap.js';
+export type {
+  GraphGetNavigationTreeOptions,
+  NavigationMetadata,
+  NavigationNode,
+} from './graph/navigation.js';
+export type {
+  GraphSearchOptions,
+  SearchFacet,
+  SearchFacetValue,
+  SearchHit,
+  SearchItem,
+  SearchResult,
+} from './graph/search.js';
+export type {
+  GraphGetRelatedOptions,
+  RelatedProperty,
+  RelatedSource,
+} from './graph/related.js';
+export { getAllRoutes, getPathSegments } from './graph/routes.js';
+export type { GetAllRoutesOptions, Route } from './graph/routes.js';
+export type {
+  GraphCacheAdapter,
+  GraphCacheEntry,
+  GraphCacheOptions,
+} from './graph/cache.js';
+export { createPersistedQueries } from './graph/persistedQueries.js';
+export type {
+  PersistedQueriesOptions,
+  PersistedQuery,
+} from './graph/persistedQueries.js';
+export type {
+  ContentTypeWhereInput,
+  ContentTypeOrderByInput,
+} from './graph/filters.js';
 export {
   BlankSectionContentType,
   BlankExperienceContentType,
@@ -25,5 +95,12 @@ export * as ContentTypes from './model/contentTypes.js';
 export * as BuildConfig from './model/buildConfig.js';
 export * as DisplayTemplates from './model/displayTemplates.js';
 export * as Properties from './model/properties.js';
-export { ContentProps } from './infer.js';
+export {
+  ContentPath,
+  ContentProps,
+  ContentResult,
+  InferredContent,
+  SelectedContent,
+  SelectedProps,
+} from './infer.js';
 export { damAssets } from './render/assets.js';
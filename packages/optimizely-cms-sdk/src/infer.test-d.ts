@@ -1,5 +1,6 @@
 import { test, expectTypeOf } from 'vitest';
-import type { ContentProps } from './infer.js';
+import type { ContentProps, InferredContent } from './infer.js';
+import type { GraphClient } from './graph/index.js';
 import { contentType } from './model/index.js';
 
 test('ContentProps works for non-content type', () => {
@@ -107,3 +108,32 @@ test('ContentProps works for disabled keys', () => {
 
   expectTypeOf<ContentProps<typeof c1>>().toExtend<ExpectedType>();
 });
+
+test('getContentByPath includes the metadata of the items', () => {
+  const Article = contentType({
+    key: 'Article',
+    baseType: '_page',
+    properties: {
+      heading: { type: 'string' },
+    },
+  });
+
+  const check = async (client: GraphClient) => {
+    const items = await client.getContentByPath<typeof Article>('/en/');
+
+    expectTypeOf(items).toEqualTypeOf<
+      ({
+        __typename: string;
+        _metadata: {
+          key: string;
+          locale: string;
+          fallbackForLocale?: string;
+          variation: string;
+        };
+      } & InferredContent<typeof Article>)[]
+    >();
+    expectTypeOf(items[0]._metadata.variation).toEqualTypeOf<string>();
+    expectTypeOf(items[0].heading).toEqualTypeOf<string | null>();
+  };
+  expectTypeOf(check).toBeFunction();
+});
@@ -201,6 +201,75 @@ type InferFromContentType<T extends AnyContentType> = Prettify<
   InferredBase & InferProps<T> & InferExperience<T> & InferSection<T>
 >;
 
+/** Paths of the properties that can be selected inside a property */
+// prettier-ignore
+type NestedContentPath<T, Depth extends unknown[]> =
+    T extends ComponentProperty<infer E> ? ContentPath<E, Depth>
+  : T extends ArrayProperty<infer I> ? NestedContentPath<I, Depth>
+  : never;
+
+/**
+ * Paths of the properties of a content type that can be selected when
+ * fetching content. For example `'title'` or `'hero.heading'` (the property
+ * `heading` of the component property `hero`)
+ */
+// prettier-ignore
+export type ContentPath<T extends AnyContentType, Depth extends unknown[] = []> =
+    Depth['length'] extends 3 ? never
+  : T extends { properties: Record<string, AnyProperty> }
+    ? {
+        [K in EnabledKeys<T['properties']> & string]:
+          | K
+          | `${K}.${NestedContentPath<T['properties'][K], [...Depth, unknown]>}`;
+      }[EnabledKeys<T['properties']> & string]
+    : never;
+
+/** First segment of the paths. `'hero.heading'` -> `'hero'` */
+type PathHead<S extends string> = S extends `${infer H}.${string}` ? H : S;
+
+/** Rest of the paths that start with `K`. `'hero.heading'` -> `'heading'` */
+type PathTail<S extends string, K extends string> = S extends `${K}.${infer R}`
+  ? R
+  : never;
+
+/** Infers the type of a property when only the paths `S` inside it are selected */
+// prettier-ignore
+type InferSelectedProperty<T extends AnyProperty, S extends string> =
+    T extends ComponentProperty<infer E> ? SelectedProps<E, S>
+  : T extends ArrayProperty<infer I> ? InferSelectedProperty<I, S>[]
+  : InferFromProperty<T>;
+
+/** Like {@linkcode InferProps} but only with the properties in `S` */
+type InferSelectedProps<T extends AnyContentType, S extends string> = T extends {
+  properties: Record<string, AnyProperty>;
+}
+  ? {
+      [Key in EnabledKeys<T['properties']> & PathHead<S>]:
+        | (Key extends S
+            ? InferFromProperty<T['properties'][Key]>
+            : InferSelectedProperty<
+                T['properties'][Key],
+                PathTail<S, Key & string>
+              >)
+        | null;
+    }
+  : {};
+
+/**
+ * Infers the TypeScript type for a content type when only the properties in
+ * `S` are fetched. Same as {@linkcode ContentProps} if `S` is `never`
+ */
+export type SelectedProps<T extends AnyContentType, S extends string> = [
+  S,
+] extends [never]
+  ? ContentProps<T>
+  : Prettify<
+      InferredBase &
+        InferSelectedProps<T, S> &
+        InferExperience<T> &
+        InferSection<T>
+    >;
+
 /** Infers the TypeScript type for a display setting */
 type InferFromDisplayTemplate<T extends DisplayTemplate> = T extends {
   settings: infer S;
@@ -219,6 +288,39 @@ type InferFromDisplayTemplate<T extends DisplayTemplate> = T extends {
     }
   : {};
 
+/**
+ * Infers the Graph response for one or more content types. `__typename` is
+ * the key of each content type, so a union can be narrowed with
+ * `switch (content.__typename)`
+ */
+export type InferredContent<T extends AnyContentType> = T extends AnyContentType
+  ? Prettify<Omit<ContentProps<T>, '__typename'> & { __typename: T['key'] }>
+  : never;
+
+/**
+ * Like {@linkcode InferredContent} but only with the properties in `S`.
+ * Same as {@linkcode InferredContent} if `S` is `never`
+ */
+export type SelectedContent<T extends AnyContentType, S extends string> = [
+  S,
+] extends [never]
+  ? InferredContent<T>
+  : T extends AnyContentType
+    ? Prettify<
+        Omit<SelectedProps<T, S>, '__typename'> & { __typename: T['key'] }
+      >
+    : never;
+
+/**
+ * Type of the content returned by the `GraphClient`: {@linkcode InferredContent}
+ * if `T` is a content type (or a union of them), `T` otherwise
+ */
+// prettier-ignore
+export type ContentResult<T> =
+  0 extends 1 & T ? any
+  : [T] extends [AnyContentType] ? InferredContent<T>
+  : T;
+
 /** Infers the Graph response types of `T`. `T` can be a content type or a property */
 // prettier-ignore
 export type ContentProps<T> =
@@ -2,10 +2,15 @@ import { BuildConfig } from './buildConfig.js';
 import { AnyContentType } from './contentTypes.js';
 import { DisplayTemplate, DisplayTemplateVariant } from './displayTemplates.js';
 
-/** Defines a Optimizely CMS content type */
-export function contentType<T extends AnyContentType>(
-  options: T
-): T & { __type: 'contentType' } {
+/**
+ * Defines a Optimizely CMS content type.
+ *
+ * The `key` is kept as a literal type, so content of different types can be
+ * told apart by its `__typename`
+ */
+export function contentType<T extends AnyContentType, K extends string>(
+  options: T & { key: K }
+): T & { key: K; __type: 'contentType' } {
   return { ...options, __type: 'contentType' };
 }
 
@@ -34,21 +34,22 @@ export default async function Page({ params }: Props) {
     return <OptimizelyComponent content={content} />;
   }
 
+  // If the variation is not found, the original is returned instead
   const content = await client
     .getContentByPath(path, {
-      variation: { include: 'SOME', value: [variation] },
-    })
-    .then((content) => {
-      // If no variations are found, try to fetch the original
-      if (content.length === 0) {
-        console.log('Variation not found. Fetching original');
-        return client.getContentByPath(path);
-      }
-
-      console.log('Showing variation', variation);
-      return content;
+      variation: {
+        include: 'SOME',
+        value: [variation],
+        fallbackToOriginal: true,
+      },
     })
     .then(returnFirst);
 
+  if (content._metadata.variation) {
+    console.log('Showing variation', content._metadata.variation);
+  } else {
+    console.log('Showing original. Variation not found:', variation);
+  }
+
   return <OptimizelyComponent content={content} />;
 }
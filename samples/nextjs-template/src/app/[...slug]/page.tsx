@@ -1,5 +1,4 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { GraphClient } from '@optimizely/cms-sdk';
+import { getAllRoutes, GraphClient } from '@optimizely/cms-sdk';
 import { OptimizelyComponent } from '@optimizely/cms-sdk/react/server';
 import { notFound } from 'next/navigation';
 import React from 'react';
@@ -10,12 +9,6 @@ import React from 'react';
  */
 export const dynamicParams = true;
 
-function removeSlashes(str: string) {
-  const str2 = str.startsWith('/') ? str.slice(1) : str;
-
-  return str2.endsWith('/') ? str2.slice(0, -1) : str2;
-}
-
 /**
  * Generates static routes at build-time
  * See: https://nextjs.org/docs/app/api-reference/functions/generate-static-params
@@ -25,43 +18,20 @@ export async function generateStaticParams() {
     return [];
   }
 
-  // Note: in this sample site, we do not use pagination for querying pages.
-  // If a website has more than 100 pages, only 100 will be statically generated
-  const query = `
-  query GetPosts {
-    _Page(limit: 100) {
-      items {
-        _metadata {
-          url {
-            base
-            default
-          }
-        }
-      }
-    }
-  }
-    `;
-
   const client = new GraphClient(process.env.OPTIMIZELY_GRAPH_SINGLE_KEY!, {
     graphUrl: process.env.OPTIMIZELY_GRAPH_GATEWAY,
   });
-  const data = await client.request(query, {});
+  const routes = await getAllRoutes(client, {
+    host: process.env.APPLICATION_HOST,
+  });
 
-  return data._Page.items
-    .filter(
-      // Get only pages for current application
-      (item: any) => item?._metadata?.url?.base === process.env.APPLICATION_HOST
-    )
-    .map((item: any) => item?._metadata?.url?.default)
-    .filter((path?: string) => typeof path === 'string')
-    .map(removeSlashes)
-    .filter((path: string) => path !== '')
-    .map(
+  return (
+    routes
+      // The root path `/` is not handled by this page
+      .filter((route) => route.segments.length > 0)
       // Format as required in Next.js
-      (path: string) => ({
-        slug: path.split('/'),
-      })
-    );
+      .map((route) => ({ slug: route.segments }))
+  );
 }
 
 type Props = {
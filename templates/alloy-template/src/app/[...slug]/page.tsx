@@ -1,6 +1,6 @@
 import Footer from '@/components/base/Footer';
 import Header from '@/components/base/Header';
-import { GraphClient } from '@optimizely/cms-sdk';
+import { GraphClient, type NavigationNode } from '@optimizely/cms-sdk';
 import { OptimizelyComponent } from '@optimizely/cms-sdk/react/server';
 import { notFound } from 'next/navigation';
 import React from 'react';
@@ -29,25 +29,15 @@ export default async function Page({ params }: Props) {
   // Check if URL contains "about-us" to show sidebar navigation
   const showSidebar = path.includes('about-us');
 
-  // Fetch siblings for sidebar navigation when in "about-us" section
-  let navigationTree: any[] = [];
+  // Fetch the sidebar navigation when in "about-us" section
+  let navigationTree: NavigationNode[] = [];
   if (showSidebar) {
-    // Always fetch children of /en/about-us/ for the sidebar
-    const siblings = (await client.getItems('/en/about-us')) ?? [];
-
-    // Fetch children for each sibling to build the navigation tree
-    navigationTree = await Promise.all(
-      siblings.map(async (sibling: any) => {
-        const siblingPath = sibling._metadata?.url?.hierarchical;
-        const children = siblingPath
-          ? ((await client.getItems(siblingPath)) ?? [])
-          : [];
-        return {
-          ...sibling,
-          children,
-        };
-      }),
-    );
+    // Always show the children (and grandchildren) of /en/about-us/ in the sidebar
+    const tree = await client.getNavigationTree('/en/about-us', {
+      depth: 2,
+      currentPath: path,
+    });
+    navigationTree = tree?.children ?? [];
   }
 
   return (
@@ -60,7 +50,7 @@ export default async function Page({ params }: Props) {
           <div className="flex gap-8 py-8">
             {/* Sidebar Navigation - Hidden on mobile, visible on md and up */}
             <aside className="hidden md:block w-64 shrink-0">
-              <SidebarNav navigationTree={navigationTree} currentPath={path} />
+              <SidebarNav navigationTree={navigationTree} />
             </aside>
 
             {/* Main Content */}
@@ -10,7 +10,9 @@ interface HeaderProps {
 
 async function Header({ client, currentPath }: HeaderProps) {
   const ancestors = (await client.getPath(currentPath)) || [];
-  const navLinks = (await client.getItems('/en/')) ?? [];
+  const navigationTree = await client.getNavigationTree('/en/', {
+    currentPath,
+  });
 
   // Filter out the start page (first item) and create breadcrumbs
   const breadcrumbs = ancestors.slice(1).map((ancestor: any) => ({
@@ -19,12 +21,12 @@ async function Header({ client, currentPath }: HeaderProps) {
     href: ancestor._metadata.url.hierarchical,
   }));
 
-  // Create navigation from navLinks of the /en/ page
-  const navigations = navLinks
-    .map((ancestor: any) => ({
-      key: ancestor._metadata.key,
-      label: ancestor._metadata.displayName,
-      href: ancestor._metadata.url.hierarchical,
+  // Create navigation from the children of the /en/ page
+  const navigations = (navigationTree?.children ?? [])
+    .map((child) => ({
+      key: child._metadata.key,
+      label: child._metadata.displayName ?? '',
+      href: child._metadata.url?.hierarchical ?? '#',
     }))
     .sort((a, b) => {
       // Move "About Us" to the end
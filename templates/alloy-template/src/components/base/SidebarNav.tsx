@@ -1,67 +1,41 @@
 'use client';
 
 import Link from 'next/link';
-
-interface NavItem {
-  _metadata: {
-    key: string;
-    displayName: string;
-    url: {
-      hierarchical: string;
-    };
-  };
-  children?: NavItem[];
-}
+import type { NavigationNode } from '@optimizely/cms-sdk';
 
 interface SidebarNavProps {
-  navigationTree: NavItem[];
-  currentPath: string;
+  navigationTree: NavigationNode[];
 }
 
-export function SidebarNav({ navigationTree, currentPath }: SidebarNavProps) {
+export function SidebarNav({ navigationTree }: SidebarNavProps) {
   return (
     <nav className="space-y-0">
       {navigationTree.map((item, index) => {
-        const parentPath = item._metadata?.url?.hierarchical;
-        const hasChildren = item.children && item.children.length > 0;
+        const hasChildren = item.children.length > 0;
 
-        // Check if current path is this item or a descendant (starts with the item's path)
-        const isActive = parentPath === currentPath;
-        const isDescendant = currentPath.startsWith(parentPath);
-
-        // Auto-expand if current path is under this parent or any of its children
-        const isParentActive = isDescendant;
-        const hasActiveChild = hasChildren && item.children!.some(
-          (child) => {
-            const childPath = child._metadata?.url?.hierarchical;
-            return currentPath === childPath || currentPath.startsWith(childPath);
-          }
-        );
-        const isExpanded = isParentActive || hasActiveChild;
+        // Auto-expand if the current page is this item or any of its descendants
+        const isExpanded = item.isInActiveTrail;
 
         const showBorder = index < navigationTree.length - 1;
 
         return (
           <div key={item._metadata.key} className={showBorder ? 'border-b border-gray-200' : ''}>
             <Link
-              href={item._metadata?.url?.hierarchical || '#'}
+              href={item._metadata.url?.hierarchical || '#'}
               className={`block px-4 py-3 text-base font-medium transition-colors ${
-                isActive
+                item.isCurrent
                   ? 'text-teal-600'
                   : 'text-gray-700 hover:text-teal-600'
               }`}
             >
-              {item._metadata?.displayName}
+              {item._metadata.displayName}
             </Link>
 
             {/* Nested children - only show when expanded */}
             {hasChildren && isExpanded && (
               <div className="border-t border-gray-100">
-                {item.children!.map((child, childIndex) => {
-                  const childPath = child._metadata?.url?.hierarchical;
-                  // Highlight if current path is this child or a descendant
-                  const isChildActive = currentPath === childPath || currentPath.startsWith(childPath);
-                  const showChildBorder = childIndex < item.children!.length - 1;
+                {item.children.map((child, childIndex) => {
+                  const showChildBorder = childIndex < item.children.length - 1;
 
                   return (
                     <div
@@ -69,14 +43,15 @@ export function SidebarNav({ navigationTree, currentPath }: SidebarNavProps) {
                       className={showChildBorder ? 'border-b border-gray-100' : ''}
                     >
                       <Link
-                        href={child._metadata?.url?.hierarchical || '#'}
+                        href={child._metadata.url?.hierarchical || '#'}
                         className={`block pl-8 pr-4 py-3 text-sm transition-colors ${
-                          isChildActive
+                          // Highlight if current path is this child or a descendant
+                          child.isInActiveTrail
                             ? 'text-teal-600'
                             : 'text-gray-700 hover:text-teal-600'
                         }`}
                       >
-                        {child._metadata?.displayName}
+                        {child._metadata.displayName}
                       </Link>
                     </div>
                   );